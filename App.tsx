@@ -1,72 +1,499 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppState, DriveFile, CleanupCandidate } from './types.ts';
-import { driveService } from './services/googleDriveService.ts';
-import { analyzeFilesWithGemini } from './services/geminiService.ts';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { AppState, DriveFile, CleanupCandidate, ScanFilters, ScanProgress, AnalysisProgress, AnalysisDiagnostic, PurgeItemResult, PurgeProgress, PurgeRun, AuditRun, ProviderSettings, AnalysisProviderId, NearDuplicateSettings, PrivacySettings, AgentProposal, PurgeAction, PURGE_ACTIONS, AnalysisResult, FolderNode, CleanupRule, Allowlist, DriveSnapshot, DriveChange, DuplicateGroup, SurvivorStrategy, ReviewFilters, StorageQuota, DriveUser, SharedDrive } from './types.ts';
+import { driveService, ScanCancelledError, AuthExpiredError, scanScopeError } from './services/googleDriveService.ts';
+import { analyzeFiles } from './services/analysisService.ts';
 import FileCard from './components/FileCard.tsx';
-
-const MOCK_FILES: DriveFile[] = [
-  { id: 'm1', name: 'Draft_Proposal_v1_FINAL.pdf', size: '12500000', mimeType: 'application/pdf', modifiedTime: '2022-03-12T10:00:00Z' },
-  { id: 'm2', name: 'Draft_Proposal_v1_FINAL.pdf', size: '12500000', mimeType: 'application/pdf', modifiedTime: '2022-03-12T10:00:00Z' },
-  { id: 'm3', name: 'Raw_Video_Archive_2023.mp4', size: '4200000000', mimeType: 'video/mp4', modifiedTime: '2023-11-20T15:30:00Z' },
-  { id: 'm4', name: 'Legacy_Database_Backup.sql', size: '1850000000', mimeType: 'text/plain', modifiedTime: '2021-02-15T09:00:00Z' },
-];
+import ScanScopePanel from './components/ScanScopePanel.tsx';
+import DiagnosticsPanel from './components/DiagnosticsPanel.tsx';
+import PurgeResultsPanel from './components/PurgeResultsPanel.tsx';
+import PurgeHistoryPanel from './components/PurgeHistoryPanel.tsx';
+import AuditHistoryPanel from './components/AuditHistoryPanel.tsx';
+import FolderUsagePanel from './components/FolderUsagePanel.tsx';
+import DuplicateGroupsPanel from './components/DuplicateGroupsPanel.tsx';
+import ReviewToolbar from './components/ReviewToolbar.tsx';
+import VirtualGrid from './components/VirtualGrid.tsx';
+import StorageDashboard from './components/StorageDashboard.tsx';
+import AccountMenu from './components/AccountMenu.tsx';
+import AgentChatPanel from './components/AgentChatPanel.tsx';
+import RulesModal from './components/RulesModal.tsx';
+import { getRules, saveRules } from './services/rulesEngine.ts';
+import AllowlistModal from './components/AllowlistModal.tsx';
+import { getAllowlist, saveAllowlist, createProtectionCheck } from './services/protectionService.ts';
+import { buildAuditReport, reportToCsv, reportToJson, reportToMarkdown, parseAuditReport } from './services/reportService.ts';
+import { downloadText, downloadBlob } from './utils/download.ts';
+import { buildArchiveBundle, getArchiveFolderName, saveArchiveFolderName } from './services/archiveService.ts';
+import { snapshotStore } from './services/snapshotStore.ts';
+import { applyChanges, coversWholeDrive, expandToDuplicateGroups } from './services/incrementalScan.ts';
+import { applyStrategy, carrySurvivors, withoutSurvivors, withoutRelatedCopies, withoutRelatedTargets, selectNonSurvivors } from './services/duplicateGroups.ts';
+import { FolderTree, buildFolderTree, collectSubtreeFileIds, isFolder, folderParentMap } from './services/folderTree.ts';
+import { DEMO_DRIVE } from './fixtures/demoDrive.ts';
+import { auditHistory, buildAuditRun } from './services/auditHistory.ts';
+import { openDatabase, DatabaseBlockedError } from './services/database.ts';
+import { PROVIDER_OPTIONS, defaultProviderSettings, getProviderSettings, saveProviderSettings, createAnalysisProvider } from './services/analysisProvider.ts';
+import { DEFAULT_REVIEW_FILTERS, DEFAULT_SELECTION_THRESHOLD, ReviewItem, candidateMimeTypes, sumBytes } from './services/reviewFilters.ts';
+import { reviewWorker } from './services/reviewWorkerClient.ts';
+import { SelectionSet } from './utils/selection.ts';
+import { formatBytes } from './utils/format.ts';
+import { getNearDuplicateSettings, saveNearDuplicateSettings } from './services/nearDuplicates.ts';
+import { getPrivacySettings, savePrivacySettings, createNameRedactor, buildPayloadPreview } from './services/privacyService.ts';
+import { internalDomainsFor, defaultPurgeActions } from './services/sharingAudit.ts';
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>(AppState.LANDING);
   const [files, setFiles] = useState<DriveFile[]>([]);
   const [candidates, setCandidates] = useState<CleanupCandidate[]>([]);
-  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [diagnostics, setDiagnostics] = useState<AnalysisDiagnostic[]>([]);
+  const [selectedIds, setSelectedIds] = useState<SelectionSet>(() => SelectionSet.of());
+  // Per-file purge action; files without an entry are trashed.
+  const [fileActions, setFileActions] = useState<Record<string, PurgeAction>>({});
   const [agentMessage, setAgentMessage] = useState<string>("System standby...");
   const [error, setError] = useState<{title: string, msg: string, code?: string} | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [rules, setRules] = useState<CleanupRule[]>(getRules());
+  const [isAllowlistOpen, setIsAllowlistOpen] = useState(false);
+  const [allowlist, setAllowlist] = useState<Allowlist>(getAllowlist());
   const [tempClientId, setTempClientId] = useState(driveService.getClientId());
+  const [tempProvider, setTempProvider] = useState<ProviderSettings>(getProviderSettings());
+  const [tempArchiveFolder, setTempArchiveFolder] = useState(getArchiveFolderName());
+  const [tempNearDuplicates, setTempNearDuplicates] = useState<NearDuplicateSettings>(getNearDuplicateSettings());
+  const [tempPrivacy, setTempPrivacy] = useState<PrivacySettings>(getPrivacySettings());
+  const [scanFilters, setScanFilters] = useState<ScanFilters>({});
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const [purgeProgress, setPurgeProgress] = useState<PurgeProgress | null>(null);
+  const [purgeResults, setPurgeResults] = useState<PurgeItemResult[]>([]);
+  const [purgeRuns, setPurgeRuns] = useState<PurgeRun[]>([]);
+  const [auditRuns, setAuditRuns] = useState<AuditRun[]>([]);
+  const [historyView, setHistoryView] = useState<'purges' | 'audits'>('purges');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [stateBeforeHistory, setStateBeforeHistory] = useState<AppState>(AppState.LANDING);
+  const [folderTree, setFolderTree] = useState<FolderTree | null>(null);
+  const [reviewView, setReviewView] = useState<'candidates' | 'duplicates' | 'folders'>('candidates');
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([]);
+  const [reviewFilters, setReviewFilters] = useState<ReviewFilters>(DEFAULT_REVIEW_FILTERS);
+  const [selectionThreshold, setSelectionThreshold] = useState(DEFAULT_SELECTION_THRESHOLD);
+  const [quota, setQuota] = useState<StorageQuota | null>(null);
+  const [dryRun, setDryRun] = useState(false);
+  const [lastPurgeWasDryRun, setLastPurgeWasDryRun] = useState(false);
+  const [account, setAccount] = useState<DriveUser | null>(null);
+  const [accounts, setAccounts] = useState<DriveUser[]>([]);
+  const [sharedDrives, setSharedDrives] = useState<SharedDrive[]>([]);
+  const [analysisScope, setAnalysisScope] = useState<string | null>(null);
+  const [snapshotInfo, setSnapshotInfo] = useState<{ takenAt: string; fileCount: number } | null>(null);
+  const protectionReason = useMemo(
+    () => createProtectionCheck(allowlist, folderTree ? folderParentMap(folderTree) : undefined),
+    [allowlist, folderTree]
+  );
+  const survivorIds = useMemo(() => new Set(duplicateGroups.map(g => g.survivorId)), [duplicateGroups]);
+  // Permissions within the signed-in account's own domain are never treated as exposure.
+  const sharingAudit = () => ({ internalDomains: internalDomainsFor(driveService.activeAccountEmail) });
+  // Files without an entry in fileActions are trashed.
+  const actionFor = (id: string): PurgeAction => fileActions[id] || 'trash';
+  // Restricting sharing keeps the file, so a kept duplicate copy may still be unshared.
+  const lockedReason = (file: DriveFile, action: PurgeAction = actionFor(file.id)) =>
+    protectionReason(file, action) || (action !== 'restrict' && survivorIds.has(file.id) ? 'Kept copy of its duplicate group' : null);
+  const availableActions = (file: DriveFile, candidate: CleanupCandidate) =>
+    PURGE_ACTIONS.filter(a => (a !== 'restrict' || candidate.severity) && !lockedReason(file, a));
+  const filesById = useMemo(() => new Map<string, DriveFile>(files.map((f: DriveFile) => [f.id, f])), [files]);
+  const candidatesById = useMemo(() => new Map<string, CleanupCandidate>(candidates.map(c => [c.id, c])), [candidates]);
+  // Candidate IDs in display order, as filtered and sorted by the review worker.
+  const [reviewOrder, setReviewOrder] = useState<string[]>([]);
+  const [isFiltering, setIsFiltering] = useState(false);
+  const reviewItems = useMemo(() => reviewOrder.flatMap((id): ReviewItem[] => {
+    const candidate = candidatesById.get(id);
+    const file = filesById.get(id);
+    return candidate && file ? [{ candidate, file }] : [];
+  }), [reviewOrder, candidatesById, filesById]);
+  const mimeTypes = useMemo(() => candidateMimeTypes(candidates, filesById), [candidates, filesById]);
+  const driveName = useMemo(() => {
+    const names = new Map(sharedDrives.map(d => [d.id, d.name]));
+    const spansDrives = files.some((f: DriveFile) => f.driveId);
+    return (file: DriveFile) => spansDrives ? (file.driveId ? names.get(file.driveId) || 'Shared drive' : 'My Drive') : undefined;
+  }, [files, sharedDrives]);
+  // Tokens are derived from the names themselves, so the mapping is rebuilt locally rather than stored.
+  // Folder names are included so they are recognised in chat messages too.
+  const nameRedactor = useMemo(
+    () => createNameRedactor(folderTree ? [...files, ...folderTree.byId.values()] : files),
+    [files, folderTree]
+  );
+  // Saving settings reloads the page, so the setting is read once.
+  const redactNames = useMemo(() => getPrivacySettings().redactNames, []);
+  // Restricting sharing frees no space.
+  const selectedBytes = useMemo(
+    () => sumBytes((Array.from(selectedIds) as string[]).filter(id => fileActions[id] !== 'restrict'), filesById),
+    [selectedIds, fileActions, filesById]
+  );
 
+  // Filtering and sorting tens of thousands of cards runs in the review worker; replies for
+  // filters or data that have since changed are dropped.
   useEffect(() => {
-    driveService.init((authStatus) => {
-      if (authStatus) {
-        startScan();
+    let stale = false;
+    setIsFiltering(true);
+    reviewWorker.setDataset(files, candidates).then(() => reviewWorker.filter(reviewFilters)).then(order => {
+      if (!stale) setReviewOrder(order);
+    }).catch(err => console.error("[DrivePurge] Could not filter the review list:", err))
+      .finally(() => { if (!stale) setIsFiltering(false); });
+    return () => { stale = true; };
+  }, [files, candidates, reviewFilters]);
+
+  const scanAbortRef = useRef<AbortController | null>(null);
+  // startScan is invoked from the auth callback registered on mount, so it reads filters through a ref.
+  const scanFiltersRef = useRef<ScanFilters>(scanFilters);
+  scanFiltersRef.current = scanFilters;
+  const scanModeRef = useRef<'full' | 'quick'>('full');
+  // The audit run the current review came from, so its purge outcome can be recorded against it.
+  const auditRunIdRef = useRef<string | null>(null);
+  // Bumped whenever the review is replaced (new scan, analysis, import or reset), so work that
+  // awaited the review worker can tell it has been superseded.
+  const reviewRunRef = useRef(0);
+
+  // Snapshots are per account, so the quick re-audit offer follows the active account.
+  useEffect(() => {
+    const email = driveService.activeAccountEmail;
+    setSnapshotInfo(null);
+    if (!email) return;
+    let stale = false;
+    snapshotStore.load(email).then(snapshot => {
+      if (snapshot && !stale) setSnapshotInfo({ takenAt: snapshot.takenAt, fileCount: snapshot.files.length });
+    });
+    return () => { stale = true; };
+  }, [account]);
+
+  useEffect(() => {
+    // Snapshots and audit history fail quietly on their own; a blocked upgrade needs the user to act.
+    openDatabase().catch(err => {
+      if (err instanceof DatabaseBlockedError) setError({ title: "Close Other Tabs", msg: err.message });
+    });
+    driveService.init((authStatus, authError) => {
+      if (authError) {
+        setError({
+          title: "Sign-in Failed",
+          msg: "Google did not grant access to your Drive. Try connecting again, and allow pop-ups for this site.",
+          code: authError
+        });
+        return;
       }
+      loadAccount();
+      // Picking specific shared drives needs the drive list first, so that scope waits on the landing page.
+      if (authStatus && !scanScopeError(scanFiltersRef.current)) startScan();
+      else setState(AppState.LANDING);
     });
   }, []);
 
   const startScan = async () => {
+    reviewRunRef.current++;
     setState(AppState.SCANNING);
     setAgentMessage("Performing deep audit of file metadata...");
+    setScanProgress(null);
+    const controller = new AbortController();
+    scanAbortRef.current = controller;
+    const mode = scanModeRef.current;
+    scanModeRef.current = 'full';
+    refreshQuota();
     try {
-      const fetchedFiles = await driveService.listFiles();
-      setFiles(fetchedFiles);
-      setState(AppState.ANALYZING);
-      setAgentMessage("Agent is reasoning about storage redundancy...");
-      const analysis = await analyzeFilesWithGemini(fetchedFiles);
-      setCandidates(analysis.candidates);
-      setSelectedIds(new Set(analysis.candidates.filter(c => c.confidence > 0.7).map(c => c.id)));
-      setAgentMessage(analysis.summary);
-      setState(AppState.REVIEWING);
+      const email = driveService.activeAccountEmail;
+      // A scoped scan lists only part of the Drive, so it never reuses the whole-Drive snapshot.
+      const wholeDrive = coversWholeDrive(scanFiltersRef.current);
+      const snapshot = mode === 'quick' && email && wholeDrive ? await snapshotStore.load(email) : null;
+      if (mode === 'quick' && !wholeDrive) setAgentMessage("Scan scope is set, performing a full audit of that scope...");
+      if (snapshot) await runQuickScan(snapshot, controller.signal);
+      else await runFullScan(controller.signal);
     } catch (err: unknown) {
+      if (err instanceof ScanCancelledError) {
+        setState(AppState.LANDING);
+        return;
+      }
       const msg = err instanceof Error ? err.message : String(err);
-      setError({ title: "Audit Interrupted", msg: msg });
+      setError({ title: err instanceof AuthExpiredError ? "Session Expired" : "Audit Interrupted", msg: msg });
       setState(AppState.LANDING);
+    } finally {
+      scanAbortRef.current = null;
+    }
+  };
+
+  const runFullScan = async (signal: AbortSignal) => {
+    const filters = scanFiltersRef.current;
+    // The demo Drive has no account and is never snapshotted.
+    const isUnscoped = coversWholeDrive(filters) && !driveService.isDemo && Boolean(driveService.activeAccountEmail);
+    const startPageToken = isUnscoped ? await driveService.getStartPageToken() : null;
+    const listed = await driveService.listFiles({ filters, signal, onProgress: setScanProgress });
+    setAgentMessage("Mapping folder hierarchy...");
+    const rootFolderId = await driveService.getRootFolderId();
+    const ancestors = await driveService.fetchMissingFolders(listed, rootFolderId);
+    const tree = buildFolderTree([...listed, ...ancestors], rootFolderId);
+    setFolderTree(tree);
+    const fetchedFiles = listed.filter(f => !isFolder(f));
+    setFiles(fetchedFiles);
+    setState(AppState.ANALYZING);
+    setAgentMessage("Agent is reasoning about storage redundancy...");
+    setAnalysisProgress(null);
+    let aiResult: AnalysisResult | null = null;
+    const analysis = await analyzeFiles(fetchedFiles, {
+      onProgress: setAnalysisProgress,
+      folderTree: tree,
+      sharing: sharingAudit(),
+      onAiResult: (ai) => { aiResult = ai; }
+    });
+    if (startPageToken) {
+      await saveSnapshot({
+        takenAt: new Date().toISOString(),
+        startPageToken,
+        accountEmail: driveService.activeAccountEmail || undefined,
+        rootFolderId,
+        files: fetchedFiles,
+        folders: [...listed.filter(isFolder), ...ancestors],
+        aiResult
+      });
+    }
+    await applyAnalysis(analysis, fetchedFiles, tree);
+  };
+
+  // Replays Drive's change feed on the cached snapshot and only re-sends touched files (and
+  // their duplicate groups) to the model. Falls back to a full scan if the cursor is no longer valid.
+  const runQuickScan = async (snapshot: DriveSnapshot, signal: AbortSignal) => {
+    setAgentMessage("Fetching changes since the last snapshot...");
+    let feed: { changes: DriveChange[]; newStartPageToken: string };
+    try {
+      feed = await driveService.listChanges(snapshot.startPageToken, signal);
+    } catch (err: unknown) {
+      if (err instanceof ScanCancelledError || err instanceof AuthExpiredError) throw err;
+      console.warn("[DrivePurge] Change feed unavailable, running a full scan instead:", err);
+      setAgentMessage("Snapshot is out of date, performing a full audit...");
+      return runFullScan(signal);
+    }
+
+    const applied = applyChanges(snapshot, feed.changes);
+    const tree = buildFolderTree([...applied.folders, ...applied.files], snapshot.rootFolderId);
+    setFolderTree(tree);
+    setFiles(applied.files);
+    setState(AppState.ANALYZING);
+    setAgentMessage(`${applied.added} added, ${applied.modified} modified, ${applied.removed} removed since the last snapshot. Re-analyzing...`);
+    setAnalysisProgress(null);
+
+    let aiResult: AnalysisResult | null = null;
+    const analysis = await analyzeFiles(applied.files, {
+      onProgress: setAnalysisProgress,
+      folderTree: tree,
+      sharing: sharingAudit(),
+      onAiResult: (ai) => { aiResult = ai; },
+      incremental: { aiScopeIds: expandToDuplicateGroups(applied.files, applied.touched), previousAi: snapshot.aiResult }
+    });
+    await saveSnapshot({
+      takenAt: new Date().toISOString(),
+      startPageToken: feed.newStartPageToken,
+      accountEmail: snapshot.accountEmail,
+      rootFolderId: snapshot.rootFolderId,
+      files: applied.files,
+      folders: applied.folders,
+      aiResult
+    });
+    await applyAnalysis(analysis, applied.files, tree);
+  };
+
+  // Refreshes everything shown about the active account: identity, the account list and its shared drives.
+  const loadAccount = () => {
+    setAccounts(driveService.listAccounts());
+    if (!driveService.authenticated) {
+      setAccount(null);
+      setSharedDrives([]);
+      return;
+    }
+    driveService.getAccount().then(setAccount).catch(err => {
+      console.warn("[DrivePurge] Could not load the signed-in account:", err);
+    });
+    driveService.listSharedDrives().then(setSharedDrives).catch(err => {
+      console.warn("[DrivePurge] Could not list shared drives:", err);
+      setSharedDrives([]);
+    });
+  };
+
+  // Drops the current audit without a page reload, so every signed-in account stays available.
+  const resetAudit = () => {
+    reviewRunRef.current++;
+    setFiles([]);
+    setCandidates([]);
+    setDiagnostics([]);
+    setSelectedIds(SelectionSet.of());
+    setFileActions({});
+    setDuplicateGroups([]);
+    setFolderTree(null);
+    setQuota(null);
+    setPurgeResults([]);
+    setAnalysisScope(null);
+    auditRunIdRef.current = null;
+    setError(null);
+    setState(AppState.LANDING);
+  };
+
+  const switchAccount = (email: string) => {
+    driveService.switchAccount(email);
+    resetAudit();
+    setScanFilters({ ...scanFilters, driveIds: [] });
+    loadAccount();
+  };
+
+  const signOut = async () => {
+    await driveService.signOut();
+    resetAudit();
+    setScanFilters({ ...scanFilters, driveIds: [] });
+    loadAccount();
+  };
+
+  // The dashboard is informational, so a failed about.get only hides the quota bar.
+  const refreshQuota = () => {
+    driveService.getStorageQuota().then(setQuota).catch(err => {
+      console.warn("[DrivePurge] Could not load the storage quota:", err);
+      setQuota(null);
+    });
+  };
+
+  const saveSnapshot = async (snapshot: Omit<DriveSnapshot, 'id'>) => {
+    if (!snapshot.accountEmail) return;
+    await snapshotStore.save(snapshot, snapshot.accountEmail);
+    setSnapshotInfo({ takenAt: snapshot.takenAt, fileCount: snapshot.files.length });
+  };
+
+  const startQuickAudit = async () => {
+    if (driveService.authenticated) {
+      setError(null);
+      scanModeRef.current = 'quick';
+      startScan();
+      return;
     }
+    await startAnalysis(false, 'quick');
+  };
+
+  // Reads the allowlist from storage rather than state: startScan may run from the mount-time auth callback.
+  const applyAnalysis = async (
+    analysis: AnalysisResult,
+    analyzedFiles: DriveFile[],
+    tree: FolderTree | null,
+    scope: string | null = null
+  ) => {
+    const isProtected = createProtectionCheck(getAllowlist(), tree ? folderParentMap(tree) : undefined);
+    const byId = new Map(analyzedFiles.map(f => [f.id, f]));
+    const reviewRun = ++reviewRunRef.current;
+    await reviewWorker.setDataset(analyzedFiles, analysis.candidates);
+    const groups = await reviewWorker.duplicateGroups();
+    if (reviewRun !== reviewRunRef.current) return;
+    setCandidates(analysis.candidates);
+    setDiagnostics(analysis.diagnostics || []);
+    setDuplicateGroups(groups);
+    const actions = defaultPurgeActions(analysis.candidates, byId, isProtected);
+    const survivors = new Set(groups.map(g => g.survivorId));
+    // A copy outside every group has no known kept version, so it waits for the user to pick it.
+    const grouped = new Set(groups.flatMap(g => g.fileIds));
+    const selection = analysis.candidates.filter(c => {
+      const file = byId.get(c.id);
+      const action = actions[c.id] || 'trash';
+      const ungroupedCopy = (c.category === 'duplicate' || c.category === 'near_duplicate') && !grouped.has(c.id);
+      return file && !isProtected(file, action) && (action === 'restrict' || (!survivors.has(c.id) && !ungroupedCopy)) && c.confidence > DEFAULT_SELECTION_THRESHOLD;
+    }).map(c => c.id);
+    setFileActions(actions);
+    setSelectedIds(SelectionSet.of(selection));
+    const revealNames = createNameRedactor(analyzedFiles).reveal;
+    const run = buildAuditRun(analysis, analyzedFiles, selection, {
+      accountEmail: driveService.activeAccountEmail || undefined,
+      scope: scope || undefined,
+    }, revealNames);
+    auditRunIdRef.current = run.id;
+    // Not awaited: the review opens right away, and a later update waits for this save itself.
+    auditHistory.save(run);
+    setAgentMessage(revealNames(analysis.summary));
+    setReviewFilters(DEFAULT_REVIEW_FILTERS);
+    setSelectionThreshold(DEFAULT_SELECTION_THRESHOLD);
+    setAnalysisScope(scope);
+    setReviewView('candidates');
+    setState(AppState.REVIEWING);
   };
 
-  const startAnalysis = async (isDemo: boolean = false) => {
+  // Re-runs the analysis on one folder's subtree; the full scan stays loaded for the folder view.
+  const analyzeFolder = async (folder: FolderNode) => {
+    if (!folderTree) return;
+    const ids = new Set(collectSubtreeFileIds(folder));
+    const subset = files.filter((f: DriveFile) => ids.has(f.id));
     setError(null);
+    setState(AppState.ANALYZING);
+    setAgentMessage(`Agent is reasoning about "${folder.name}"...`);
+    setAnalysisProgress(null);
+    try {
+      const analysis = await analyzeFiles(subset, { onProgress: setAnalysisProgress, folderTree, sharing: sharingAudit() });
+      await applyAnalysis(analysis, subset, folderTree, folder.name);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError({ title: "Folder Analysis Failed", msg: msg });
+      setState(AppState.REVIEWING);
+    }
+  };
+
+  const exportReport = (format: 'csv' | 'json' | 'md') => {
+    const report = buildAuditReport(agentMessage, candidates, files, selectedIds, nameRedactor.reveal);
+    const stamp = report.generatedAt.slice(0, 10);
+    if (format === 'csv') downloadText(`drivepurge-report-${stamp}.csv`, reportToCsv(report), 'text/csv');
+    else if (format === 'md') downloadText(`drivepurge-report-${stamp}.md`, reportToMarkdown(report), 'text/markdown');
+    else downloadText(`drivepurge-report-${stamp}.json`, reportToJson(report));
+  };
+
+  // Loads a colleague's saved JSON report so their selection can be reviewed and approved here.
+  const importReport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reviewRun = ++reviewRunRef.current;
+    try {
+      const report = parseAuditReport(await file.text());
+      const importedFiles = report.entries.map(entry => entry.file);
+      const importedCandidates = report.entries.map(entry => entry.candidate);
+      await reviewWorker.setDataset(importedFiles, importedCandidates);
+      const groups = await reviewWorker.duplicateGroups();
+      if (reviewRun !== reviewRunRef.current) return;
+      const isProtected = createProtectionCheck(getAllowlist());
+      setFiles(importedFiles);
+      setFolderTree(null);
+      setCandidates(importedCandidates);
+      setDiagnostics([]);
+      setDuplicateGroups(groups);
+      const actions = defaultPurgeActions(importedCandidates, new Map(importedFiles.map(f => [f.id, f])), isProtected);
+      const survivors = new Set(groups.map(g => g.survivorId));
+      setFileActions(actions);
+      setSelectedIds(SelectionSet.of(report.entries.filter(entry => {
+        const action = actions[entry.file.id] || 'trash';
+        return entry.selected && !isProtected(entry.file, action) && (action === 'restrict' || !survivors.has(entry.file.id));
+      }).map(entry => entry.file.id)));
+      setReviewFilters(DEFAULT_REVIEW_FILTERS);
+      setAgentMessage(`Imported report from ${new Date(report.generatedAt).toLocaleString()}. ${report.summary}`);
+      setAnalysisScope(null);
+      setReviewView('candidates');
+      auditRunIdRef.current = null;
+      setError(null);
+      setState(AppState.REVIEWING);
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError({ title: "Import Failed", msg: msg });
+    }
+  };
+
+  const cancelScan = () => {
+    scanAbortRef.current?.abort();
+    setAgentMessage("Cancelling scan...");
+  };
+
+  const startAnalysis = async (isDemo: boolean = false, mode: 'full' | 'quick' = 'full') => {
+    setError(null);
+    scanModeRef.current = mode;
+    if (!isDemo && driveService.authenticated && !driveService.isDemo) {
+      startScan();
+      return;
+    }
+
+    // The demo runs the real scan, analysis and purge flow against an in-memory Drive.
     if (isDemo) {
-      setState(AppState.ANALYZING);
-      setAgentMessage("Simulating audit with sample data...");
-      setFiles(MOCK_FILES);
-      try {
-        const analysis = await analyzeFilesWithGemini(MOCK_FILES);
-        setCandidates(analysis.candidates);
-        setSelectedIds(new Set(analysis.candidates.map(c => c.id)));
-        setAgentMessage(analysis.summary);
-        setState(AppState.REVIEWING);
-      } catch (err: unknown) {
-        const msg = err instanceof Error ? err.message : String(err);
-        setError({ title: "Demo Failed", msg: msg });
-        setState(AppState.LANDING);
-      }
+      driveService.connectDemo(DEMO_DRIVE);
+      loadAccount();
+      scanModeRef.current = 'full';
+      startScan();
       return;
     }
 
@@ -82,24 +509,176 @@ const App: React.FC = () => {
     }
   };
 
-  const handleCleanup = async () => {
+  const runPurge = async (requestedIds: string[], previous: PurgeItemResult[] = [], simulate: boolean = dryRun) => {
+    // Whatever the selection says, the copy each duplicate group keeps, or a copy points at, is never
+    // sent to the trash; it may still have its sharing restricted.
+    const kept = new Set(withoutRelatedTargets(Array.from(withoutSurvivors(requestedIds, duplicateGroups)), candidatesById));
+    const ids = requestedIds.filter(id => kept.has(id) || actionFor(id) === 'restrict');
     setState(AppState.TRASHING);
-    setAgentMessage(`Trashing ${selectedIds.size} flagged items...`);
-    try {
-      for (const id of Array.from(selectedIds)) {
-        await driveService.trashFile(id);
+    setLastPurgeWasDryRun(simulate);
+    setAgentMessage(simulate ? `Simulating the purge of ${ids.length} flagged items...` : `Trashing ${ids.length} flagged items...`);
+    setPurgeProgress({ total: ids.length, succeeded: 0, failed: 0, skipped: 0 });
+    const byId = new Map<string, DriveFile>(files.map((f: DriveFile) => [f.id, f]));
+    const targets = ids.map(id => byId.get(id)).filter((f): f is DriveFile => Boolean(f));
+    const results = await driveService.purgeFiles(targets, {
+      onProgress: setPurgeProgress,
+      folderParents: folderTree ? folderParentMap(folderTree) : undefined,
+      dryRun: simulate,
+      actions: fileActions,
+      archiveFolderName: getArchiveFolderName(),
+      internalDomains: sharingAudit().internalDomains,
+      // The ZIP is saved before anything it contains is trashed.
+      onBundle: async (downloads, runId) => {
+        setAgentMessage(`Bundling ${downloads.length} downloaded files...`);
+        downloadBlob(`drivepurge-${new Date().toISOString().slice(0, 10)}-${runId}.zip`, await buildArchiveBundle(downloads, runId));
       }
-      setState(AppState.COMPLETED);
-    } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : String(err);
-      setError({ title: "Purge Failed", msg: msg });
-      setState(AppState.REVIEWING);
+    });
+    // A retry replaces the earlier outcome for the same file; everything else is carried over.
+    const retried = new Set(ids);
+    const merged = [...previous.filter(r => !retried.has(r.id)), ...results];
+    setPurgeResults(merged);
+    if (auditRunIdRef.current) {
+      // The first attempt records the selection that was actually purged; retries only update the outcome.
+      await auditHistory.update(auditRunIdRef.current, {
+        ...(previous.length === 0 ? { selectedIds: ids } : {}),
+        purge: { finishedAt: new Date().toISOString(), dryRun: simulate, results: merged },
+      });
+    }
+    setState(AppState.COMPLETED);
+  };
+
+  const handleCleanup = () => runPurge(Array.from(selectedIds) as string[]);
+
+  const retryFailed = () => runPurge(
+    purgeResults.filter(r => r.status === 'failed').map(r => r.id),
+    purgeResults,
+    lastPurgeWasDryRun
+  );
+
+  // Bulk actions only touch the cards currently shown, and never protected files or kept copies.
+  const updateVisibleSelection = (shouldSelect: (c: CleanupCandidate) => boolean) => {
+    const select: string[] = [];
+    const deselect: string[] = [];
+    for (const { candidate, file } of reviewItems) {
+      (shouldSelect(candidate) && !lockedReason(file) ? select : deselect).push(file.id);
+    }
+    setSelectedIds(selectedIds.set(deselect, false).set(select, true));
+  };
+
+  // Cards that cannot take the action (not exposed, or protected from it) keep their current one.
+  const setVisibleAction = (action: PurgeAction) => {
+    const next = { ...fileActions };
+    for (const { file, candidate } of reviewItems) {
+      if (availableActions(file, candidate).includes(action)) next[file.id] = action;
+    }
+    setFileActions(next);
+  };
+
+  const setFileAction = (id: string, action: PurgeAction) => setFileActions({ ...fileActions, [id]: action });
+
+  const toggleSelected = (id: string) => {
+    if (survivorIds.has(id) && actionFor(id) !== 'restrict') return;
+    setSelectedIds(selectedIds.toggle(id));
+  };
+
+  // Re-selects the non-survivor copies of the given groups, except ones that are protected.
+  const selectGroupCopies = (groups: DuplicateGroup[], changed: DuplicateGroup[]) => {
+    const next = selectNonSurvivors(selectedIds, changed);
+    for (const id of Array.from(next) as string[]) {
+      const file = filesById.get(id);
+      if (file && protectionReason(file, actionFor(id))) next.delete(id);
     }
+    setDuplicateGroups(groups);
+    setSelectedIds(SelectionSet.of(next));
+  };
+
+  const applySurvivorStrategy = (strategy: SurvivorStrategy, preferredFolderId?: string) => {
+    const groups = applyStrategy(duplicateGroups, files, strategy, preferredFolderId);
+    selectGroupCopies(groups, groups);
+  };
+
+  const setSurvivor = (groupKey: string, fileId: string) => {
+    const groups = duplicateGroups.map(g => g.key === groupKey ? { ...g, survivorId: fileId } : g);
+    selectGroupCopies(groups, groups.filter(g => g.key === groupKey));
+  };
+
+  // Locks are checked again on accept, since protection or survivors may have changed since the proposal.
+  // Copies the chat linked to a kept file are grouped with it, so the kept file is locked like any survivor.
+  const applyAgentProposal = async (proposal: AgentProposal) => {
+    const added = proposal.newCandidates.filter(c => !candidatesById.has(c.id));
+    const nextCandidates = added.length > 0 ? [...candidates, ...added] : candidates;
+    let groups: DuplicateGroup[] = duplicateGroups;
+    if (added.length > 0) {
+      const reviewRun = reviewRunRef.current;
+      await reviewWorker.setDataset(files, nextCandidates);
+      groups = carrySurvivors(await reviewWorker.duplicateGroups(), duplicateGroups);
+      if (reviewRun !== reviewRunRef.current) return;
+      setCandidates(nextCandidates);
+      setDuplicateGroups(groups);
+    }
+    const survivors = new Set(groups.map(g => g.survivorId));
+    const kept = selectedIds.set(proposal.deselect, false);
+    const unlocked = proposal.select.filter(id => {
+      const file = filesById.get(id);
+      return file && !lockedReason(file) && (!survivors.has(id) || actionFor(id) === 'restrict');
+    });
+    const select = withoutRelatedCopies(unlocked, kept, new Map(nextCandidates.map(c => [c.id, c])));
+    setSelectedIds(kept.set(select, true).set(Array.from(survivors).filter(id => actionFor(id) !== 'restrict'), false));
+  };
+
+  const openHistory = () => {
+    if (state !== AppState.HISTORY) setStateBeforeHistory(state);
+    setPurgeRuns(driveService.purgeLog().getRuns());
+    auditHistory.list(driveService.activeAccountEmail).then(setAuditRuns);
+    setState(AppState.HISTORY);
+  };
+
+  const deleteAuditRun = async (id: string) => {
+    await auditHistory.delete(id);
+    setAuditRuns(await auditHistory.list(driveService.activeAccountEmail));
+  };
+
+  const handleRestore = async (fileIds: string[]) => {
+    setIsRestoring(true);
+    const results = await driveService.restoreFiles(fileIds);
+    setIsRestoring(false);
+    setPurgeRuns(driveService.purgeLog().getRuns());
+    const failed = results.filter(r => r.status !== 'succeeded');
+    if (failed.length > 0) {
+      setError({
+        title: "Restore Incomplete",
+        msg: `${failed.length} of ${results.length} files could not be restored.`,
+        code: failed.map(r => `${r.id}: ${r.error}`).join('\n')
+      });
+    }
+  };
+
+  const handleSaveRules = (next: CleanupRule[]) => {
+    saveRules(next);
+    setRules(next);
+    setIsRulesOpen(false);
+  };
+
+  // Newly protected files drop out of the current selection straight away.
+  const handleSaveAllowlist = (next: Allowlist) => {
+    saveAllowlist(next);
+    const stored = getAllowlist();
+    setAllowlist(stored);
+    const isProtected = createProtectionCheck(stored, folderTree ? folderParentMap(folderTree) : undefined);
+    setSelectedIds(SelectionSet.of((Array.from(selectedIds) as string[]).filter(id => {
+      const file = filesById.get(id);
+      return file && !isProtected(file);
+    })));
+    setIsAllowlistOpen(false);
   };
 
   const saveSettings = () => {
     // Save to service (and localStorage)
     driveService.setClientId(tempClientId);
+    saveProviderSettings(tempProvider);
+    saveNearDuplicateSettings(tempNearDuplicates);
+    savePrivacySettings(tempPrivacy);
+    saveArchiveFolderName(tempArchiveFolder);
     setIsSettingsOpen(false);
     // Use location.replace to ensure a clean navigation state
     setTimeout(() => {
@@ -116,6 +695,37 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-4">
+          {account && (
+            <AccountMenu
+              account={account}
+              accounts={accounts}
+              disabled={state === AppState.SCANNING || state === AppState.ANALYZING || state === AppState.TRASHING}
+              onSwitch={switchAccount}
+              onAddAccount={() => driveService.login()}
+              onSignOut={signOut}
+            />
+          )}
+          <button 
+            onClick={openHistory}
+            className="p-3 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+            title="Purge history"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+          </button>
+          <button 
+            onClick={() => setIsRulesOpen(true)}
+            className="p-3 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+            title="Cleanup rules"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>
+          </button>
+          <button 
+            onClick={() => setIsAllowlistOpen(true)}
+            className="p-3 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+            title="Protected files"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" /></svg>
+          </button>
           <button 
             onClick={() => setIsSettingsOpen(true)}
             className="p-3 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
@@ -124,13 +734,25 @@ const App: React.FC = () => {
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
           </button>
           {state === AppState.REVIEWING && (
-            <button 
-              onClick={handleCleanup} 
-              disabled={selectedIds.size === 0} 
-              className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-full font-bold shadow-xl transition-all active:scale-95 disabled:opacity-50"
-            >
-              Start Purge ({selectedIds.size})
-            </button>
+            <>
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer" title="Run the purge without trashing anything">
+                <input
+                  type="checkbox"
+                  checked={dryRun}
+                  onChange={(e) => setDryRun(e.target.checked)}
+                  className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Dry run
+              </label>
+              <span className="text-xs font-bold text-slate-500" title="Space reclaimed by the current selection">{formatBytes(selectedBytes)}</span>
+              <button 
+                onClick={handleCleanup} 
+                disabled={selectedIds.size === 0} 
+                className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-3 rounded-full font-bold shadow-xl transition-all active:scale-95 disabled:opacity-50"
+              >
+                {dryRun ? 'Simulate Purge' : 'Start Purge'} ({selectedIds.size})
+              </button>
+            </>
           )}
         </div>
       </nav>
@@ -148,11 +770,28 @@ const App: React.FC = () => {
                       Audits your file metadata to identify redundant drafts, abandoned backups, and massive hidden files you forgot existed.
                     </p>
                     <div className="flex flex-col sm:flex-row gap-6">
-                        <button onClick={() => startAnalysis(false)} className="bg-slate-900 text-white px-12 py-6 rounded-3xl font-black text-xl hover:bg-indigo-600 transition-all shadow-2xl hover:-translate-y-1 flex items-center justify-center gap-3">
-                          Connect Google Drive
+                        <button onClick={() => startAnalysis(false)} disabled={Boolean(account && !driveService.isDemo && scanScopeError(scanFilters))} className="bg-slate-900 text-white px-12 py-6 rounded-3xl font-black text-xl hover:bg-indigo-600 transition-all shadow-2xl hover:-translate-y-1 flex items-center justify-center gap-3 disabled:opacity-40 disabled:pointer-events-none">
+                          {account && !driveService.isDemo ? 'Start Audit' : 'Connect Google Drive'}
                         </button>
                         <button onClick={() => startAnalysis(true)} className="bg-white border-2 border-slate-100 text-slate-400 px-12 py-6 rounded-3xl font-black text-xl hover:border-indigo-100 hover:text-indigo-600 transition-all">Launch Demo Audit</button>
                     </div>
+                    {snapshotInfo && (
+                      <div className="mt-8 flex items-center gap-4 p-5 bg-indigo-50 rounded-3xl border border-indigo-100 max-w-xl">
+                        <div className="flex-1">
+                          <span className="text-[11px] font-black text-indigo-400 uppercase tracking-[0.2em] block">Last snapshot</span>
+                          <span className="text-sm font-bold text-indigo-900">{new Date(snapshotInfo.takenAt).toLocaleString()} • {snapshotInfo.fileCount.toLocaleString()} files</span>
+                        {!coversWholeDrive(scanFilters) && (
+                          <span className="text-xs font-bold text-indigo-500 block mt-1">The snapshot covers all of My Drive, so a scoped scan runs in full.</span>
+                        )}
+                        </div>
+                        <button onClick={startQuickAudit} className="bg-indigo-600 text-white px-6 py-3 rounded-2xl font-black text-sm hover:bg-indigo-700 transition-all shadow-lg">Quick Re-audit</button>
+                      </div>
+                    )}
+                    <label className="inline-block mt-6 text-xs font-black uppercase tracking-[0.2em] text-slate-400 hover:text-indigo-600 cursor-pointer transition-colors">
+                      Open a saved JSON report →
+                      <input type="file" accept="application/json,.json" onChange={importReport} className="hidden" />
+                    </label>
+                    <ScanScopePanel filters={scanFilters} onChange={setScanFilters} drives={sharedDrives} />
                   </div>
                   <div className="hidden lg:flex items-center justify-center relative">
                     <div className="w-80 h-80 bg-indigo-600 rounded-[60px] rotate-6 absolute opacity-10"></div>
@@ -171,7 +810,38 @@ const App: React.FC = () => {
               <div className="absolute inset-0 border-4 border-indigo-600 rounded-full border-t-transparent animate-spin"></div>
             </div>
             <h2 className="text-4xl font-black text-slate-900 tracking-tight mb-2">{agentMessage}</h2>
-            <p className="text-slate-400 font-medium italic">Gemini is processing metadata...</p>
+            {state === AppState.SCANNING ? (
+              <>
+                <p className="text-slate-400 font-medium">
+                  {scanProgress
+                    ? `${scanProgress.filesSeen.toLocaleString()} files seen • ${formatBytes(scanProgress.bytesCounted)} counted • page ${scanProgress.pages}`
+                    : "Requesting the first page of results..."}
+                </p>
+                <button onClick={cancelScan} className="mt-10 px-8 py-3 rounded-full border-2 border-slate-200 text-slate-400 font-black text-xs uppercase tracking-widest hover:border-rose-300 hover:text-rose-600 transition-all">Cancel Scan</button>
+              </>
+            ) : state === AppState.TRASHING && purgeProgress ? (
+              <div className="w-full max-w-md">
+                <p className="text-slate-400 font-medium mb-4">
+                  {purgeProgress.succeeded + purgeProgress.failed + purgeProgress.skipped} of {purgeProgress.total} processed
+                  {purgeProgress.failed > 0 && <span className="text-rose-500"> • {purgeProgress.failed} failed</span>}
+                </p>
+                <div className="h-2 bg-indigo-50 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-600 transition-all duration-300" style={{ width: `${((purgeProgress.succeeded + purgeProgress.failed + purgeProgress.skipped) / Math.max(purgeProgress.total, 1)) * 100}%` }}></div>
+                </div>
+              </div>
+            ) : state === AppState.ANALYZING && analysisProgress && analysisProgress.totalChunks > 1 ? (
+              <div className="w-full max-w-md">
+                <p className="text-slate-400 font-medium mb-4">
+                  {analysisProgress.completedChunks} of {analysisProgress.totalChunks} batches analyzed
+                  {analysisProgress.failedChunks > 0 && <span className="text-rose-500"> • {analysisProgress.failedChunks} failed</span>}
+                </p>
+                <div className="h-2 bg-indigo-50 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-600 transition-all duration-500" style={{ width: `${(analysisProgress.completedChunks / analysisProgress.totalChunks) * 100}%` }}></div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-slate-400 font-medium italic">{createAnalysisProvider().label} is processing metadata...</p>
+            )}
           </div>
         )}
 
@@ -179,8 +849,21 @@ const App: React.FC = () => {
           <div className="animate-in fade-in duration-500">
               <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 mb-12">
                 <div>
-                  <h3 className="text-4xl font-black tracking-tight text-slate-900 mb-2">Audit Report</h3>
+                  <h3 className="text-4xl font-black tracking-tight text-slate-900 mb-2">
+                    Audit Report{analysisScope && <span className="text-indigo-600"> • {analysisScope}</span>}
+                  </h3>
                   <p className="text-slate-500 font-medium max-w-2xl">{agentMessage}</p>
+                  <div className="flex flex-wrap items-center gap-4 mt-4 text-[11px] font-black uppercase tracking-[0.2em] text-slate-400">
+                    <span>Export</span>
+                    <button onClick={() => exportReport('csv')} className="hover:text-indigo-600">CSV</button>
+                    <button onClick={() => exportReport('json')} className="hover:text-indigo-600">JSON</button>
+                    <button onClick={() => exportReport('md')} className="hover:text-indigo-600">Markdown</button>
+                    <span className="text-slate-200">|</span>
+                    <label className="hover:text-indigo-600 cursor-pointer">
+                      Import JSON
+                      <input type="file" accept="application/json,.json" onChange={importReport} className="hidden" />
+                    </label>
+                  </div>
                 </div>
                 <div className="px-8 py-5 bg-white rounded-3xl border border-slate-100 shadow-sm text-center">
                   <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] block mb-1">Target List</span>
@@ -188,26 +871,119 @@ const App: React.FC = () => {
                 </div>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {candidates.map((c) => {
-                  const file = files.find(f => f.id === c.id);
-                  return file ? <FileCard key={file.id} file={file} candidate={c} onSelect={(id) => {
-                    const next = new Set(selectedIds);
-                    if (next.has(id)) next.delete(id); else next.add(id);
-                    setSelectedIds(next);
-                  }} isSelected={selectedIds.has(file.id)} /> : null;
-                })}
-              </div>
+              <StorageDashboard quota={quota} files={files} selectedBytes={selectedBytes} />
+
+              <AgentChatPanel
+                context={{ files, filesById, candidatesById, selectedIds, folderTree, lockedReason, redactor: redactNames ? nameRedactor : null }}
+                onApply={applyAgentProposal}
+              />
+
+              {(folderTree || duplicateGroups.length > 0) && (
+                <div className="flex gap-2 mb-8">
+                  {(['candidates', 'duplicates', 'folders'] as const).filter(view =>
+                    view === 'candidates' || (view === 'duplicates' ? duplicateGroups.length > 0 : Boolean(folderTree))
+                  ).map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setReviewView(view)}
+                      className={`px-6 py-2 rounded-full text-xs font-black uppercase tracking-widest transition-all ${
+                        reviewView === view ? 'bg-slate-900 text-white' : 'bg-white border border-slate-100 text-slate-400 hover:text-indigo-600'
+                      }`}
+                    >
+                      {view === 'candidates' ? `Candidates (${candidates.length})` : view === 'duplicates' ? `Duplicate Groups (${duplicateGroups.length})` : 'Storage by Folder'}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {reviewView === 'folders' && folderTree ? (
+                <FolderUsagePanel tree={folderTree} onAnalyzeFolder={analyzeFolder} />
+              ) : reviewView === 'duplicates' ? (
+                <DuplicateGroupsPanel
+                  groups={duplicateGroups}
+                  files={files}
+                  folderTree={folderTree}
+                  selectedIds={selectedIds}
+                  onToggle={toggleSelected}
+                  onSetSurvivor={setSurvivor}
+                  onApplyStrategy={applySurvivorStrategy}
+                />
+              ) : (
+                <>
+                  <ReviewToolbar
+                    filters={reviewFilters}
+                    onChange={setReviewFilters}
+                    mimeTypes={mimeTypes}
+                    visibleCount={reviewItems.length}
+                    totalCount={candidates.length}
+                    threshold={selectionThreshold}
+                    onThresholdChange={setSelectionThreshold}
+                    onSelectVisible={() => updateVisibleSelection(() => true)}
+                    onClearVisible={() => updateVisibleSelection(() => false)}
+                    onSelectByConfidence={() => updateVisibleSelection(c => c.confidence >= selectionThreshold)}
+                    onSetVisibleAction={setVisibleAction}
+                  />
+                  <VirtualGrid<ReviewItem>
+                    items={reviewItems}
+                    getKey={item => item.file.id}
+                    renderItem={({ candidate: c, file }) => (
+                      <FileCard file={file} candidate={c} onSelect={toggleSelected} isSelected={selectedIds.has(file.id)} protectionReason={lockedReason(file)} driveName={driveName(file)} relatedFile={c.relatedId ? filesById.get(c.relatedId) : undefined} action={fileActions[file.id]} onActionChange={setFileAction} revealNames={nameRedactor.reveal} actions={availableActions(file, c)} />
+                    )}
+                  />
+                  {reviewItems.length === 0 && (
+                    <p className="py-24 text-center text-slate-400 font-medium">
+                      {isFiltering ? 'Filtering candidates...' : 'No candidates match these filters.'}
+                    </p>
+                  )}
+                </>
+              )}
+
+              <DiagnosticsPanel diagnostics={diagnostics} />
           </div>
         )}
 
         {state === AppState.COMPLETED && (
-            <div className="py-32 text-center animate-in zoom-in duration-700">
-                <div className="w-32 h-32 bg-emerald-50 text-emerald-600 rounded-full flex items-center justify-center text-6xl mx-auto mb-12 shadow-inner">✨</div>
-                <h2 className="text-5xl font-black text-slate-900 mb-4 tracking-tighter">Mission Accomplished.</h2>
-                <p className="text-xl text-slate-500 mb-12">Drive assets have been relocated to the Trash.</p>
-                <button onClick={() => window.location.reload()} className="bg-slate-900 text-white px-12 py-6 rounded-3xl font-black text-xl hover:bg-indigo-600 transition-all shadow-2xl">Run New Audit</button>
+            <PurgeResultsPanel
+              results={purgeResults}
+              files={files}
+              archiveFolderName={getArchiveFolderName()}
+              dryRun={lastPurgeWasDryRun}
+              onRetryFailed={retryFailed}
+              onBackToReview={() => setState(AppState.REVIEWING)}
+              onOpenHistory={openHistory}
+              onNewAudit={resetAudit}
+            />
+        )}
+
+        {state === AppState.HISTORY && (
+          <>
+            <div className="flex gap-2 mb-8">
+              {(['purges', 'audits'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setHistoryView(view)}
+                  className={`px-5 py-2 rounded-full text-xs font-black uppercase tracking-widest transition-colors ${historyView === view ? 'bg-slate-900 text-white' : 'bg-white text-slate-400 border border-slate-100 hover:text-slate-600'}`}
+                >
+                  {view === 'purges' ? 'Purges' : 'Audits'}
+                </button>
+              ))}
             </div>
+            {historyView === 'purges' ? (
+              <PurgeHistoryPanel
+                runs={purgeRuns}
+                isRestoring={isRestoring}
+                onRestore={handleRestore}
+                onClose={() => setState(stateBeforeHistory)}
+              />
+            ) : (
+              <AuditHistoryPanel
+                runs={auditRuns}
+                revealNames={nameRedactor.reveal}
+                onDelete={deleteAuditRun}
+                onClose={() => setState(stateBeforeHistory)}
+              />
+            )}
+          </>
         )}
 
         {error && (
@@ -255,16 +1031,24 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {isRulesOpen && (
+        <RulesModal rules={rules} onSave={handleSaveRules} onClose={() => setIsRulesOpen(false)} />
+      )}
+
+      {isAllowlistOpen && (
+        <AllowlistModal allowlist={allowlist} onSave={handleSaveAllowlist} onClose={() => setIsAllowlistOpen(false)} />
+      )}
+
       {/* Settings Modal */}
       {isSettingsOpen && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 animate-in fade-in duration-300">
           <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={() => setIsSettingsOpen(false)}></div>
-          <div className="relative w-full max-w-lg bg-white rounded-[40px] p-10 shadow-2xl animate-in zoom-in-95 duration-300">
+          <div className="relative w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white rounded-[40px] p-10 shadow-2xl animate-in zoom-in-95 duration-300">
             <div className="flex items-center justify-between mb-2">
               <h3 className="text-3xl font-black text-slate-900 tracking-tight">Setup Configuration</h3>
               <button onClick={() => setIsSettingsOpen(false)} className="text-slate-400 hover:text-slate-600">&times;</button>
             </div>
-            <p className="text-slate-500 text-sm mb-8">Paste your Google Cloud OAuth 2.0 Client ID here.</p>
+            <p className="text-slate-500 text-sm mb-8">Paste your Google Cloud OAuth 2.0 Client ID and choose which model reviews your files.</p>
             
             <div className="space-y-6">
               <div>
@@ -277,7 +1061,145 @@ const App: React.FC = () => {
                   placeholder="226301323416-..."
                 />
               </div>
-              
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="sm:col-span-2">
+                  <label className="block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] mb-3">Analysis Provider</label>
+                  <select
+                    value={tempProvider.provider}
+                    onChange={(e) => setTempProvider(defaultProviderSettings(e.target.value as AnalysisProviderId))}
+                    className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-5 py-4 text-sm focus:border-indigo-600 outline-none transition-all"
+                  >
+                    {PROVIDER_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                  </select>
+                </div>
+                {tempProvider.provider !== 'heuristic' && (
+                  <>
+                    <div className={tempProvider.provider === 'openai' ? '' : 'sm:col-span-2'}>
+                      <label className="block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] mb-3">Model</label>
+                      <input
+                        type="text"
+                        value={tempProvider.model}
+                        onChange={(e) => setTempProvider({ ...tempProvider, model: e.target.value })}
+                        className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-5 py-4 font-mono text-sm focus:border-indigo-600 outline-none transition-all"
+                      />
+                    </div>
+                    {tempProvider.provider === 'openai' && (
+                      <div>
+                        <label className="block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] mb-3">Endpoint</label>
+                        <input
+                          type="text"
+                          value={tempProvider.endpoint}
+                          onChange={(e) => setTempProvider({ ...tempProvider, endpoint: e.target.value })}
+                          className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-5 py-4 font-mono text-sm focus:border-indigo-600 outline-none transition-all"
+                          placeholder="http://localhost:11434/v1"
+                        />
+                      </div>
+                    )}
+                    <div className="sm:col-span-2">
+                      <label className="block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] mb-3">API Key (optional)</label>
+                      <input
+                        type="password"
+                        value={tempProvider.apiKey || ''}
+                        onChange={(e) => setTempProvider({ ...tempProvider, apiKey: e.target.value })}
+                        className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-5 py-4 font-mono text-sm focus:border-indigo-600 outline-none transition-all"
+                        placeholder={tempProvider.provider === 'gemini' ? 'Uses the build-time key if empty' : 'Not needed for local servers'}
+                      />
+                      <label className="flex items-center gap-3 mt-3 text-sm text-slate-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(tempProvider.rememberApiKey)}
+                          onChange={(e) => setTempProvider({ ...tempProvider, rememberApiKey: e.target.checked })}
+                          className="w-4 h-4 rounded border-slate-300 text-indigo-600"
+                        />
+                        Remember the key on this device
+                      </label>
+                      <p className="text-[11px] text-slate-400 mt-2">
+                        {tempProvider.rememberApiKey
+                          ? "The key is stored unencrypted in this browser's local storage, where any script on this site can read it."
+                          : "The key is kept in this browser for the current session only and is forgotten when the tab closes."}
+                      </p>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] mb-3">Archive Folder</label>
+                <input
+                  type="text"
+                  value={tempArchiveFolder}
+                  onChange={(e) => setTempArchiveFolder(e.target.value)}
+                  className="w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-5 py-4 text-sm focus:border-indigo-600 outline-none transition-all"
+                  placeholder="DrivePurge Archive"
+                />
+                <p className="text-[11px] text-slate-400 mt-2">Files set to "Move to archive folder" go here, at the top of My Drive. It is created on first use.</p>
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] mb-3">Near Duplicates</label>
+                <div className="p-5 bg-slate-50 rounded-2xl border-2 border-slate-100 space-y-3 text-sm text-slate-700">
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={tempNearDuplicates.enabled}
+                      onChange={(e) => setTempNearDuplicates({ ...tempNearDuplicates, enabled: e.target.checked })}
+                      className="w-4 h-4 rounded border-slate-300 text-indigo-600"
+                    />
+                    Flag older versions with similar names ("Copy of", "(1)", "_v2", "final")
+                  </label>
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={tempNearDuplicates.compareThumbnails}
+                      disabled={!tempNearDuplicates.enabled}
+                      onChange={(e) => setTempNearDuplicates({ ...tempNearDuplicates, compareThumbnails: e.target.checked })}
+                      className="w-4 h-4 rounded border-slate-300 text-indigo-600"
+                    />
+                    Also compare image thumbnails (slower, fetches each thumbnail)
+                  </label>
+                  <label className="flex items-center gap-3">
+                    <span className="whitespace-nowrap">Minimum similarity</span>
+                    <input
+                      type="range"
+                      min={0.5}
+                      max={1}
+                      step={0.05}
+                      value={tempNearDuplicates.threshold}
+                      disabled={!tempNearDuplicates.enabled}
+                      onChange={(e) => setTempNearDuplicates({ ...tempNearDuplicates, threshold: Number(e.target.value) })}
+                      className="flex-1 accent-indigo-600"
+                    />
+                    <span className="font-mono text-xs w-10 text-right">{Math.round(tempNearDuplicates.threshold * 100)}%</span>
+                  </label>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] mb-3">Privacy</label>
+                <div className="p-5 bg-slate-50 rounded-2xl border-2 border-slate-100 space-y-3 text-sm text-slate-700">
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={tempPrivacy.redactNames}
+                      onChange={(e) => setTempPrivacy({ ...tempPrivacy, redactNames: e.target.checked })}
+                      className="w-4 h-4 rounded border-slate-300 text-indigo-600"
+                    />
+                    Redact file names sent to the model
+                  </label>
+                  <p className="text-[11px] text-slate-400">Names become tokens that keep the extension, version markers and a hash of the name, so duplicates are still recognised. The mapping never leaves this browser.</p>
+                  <span className="block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em]">Outgoing payload preview</span>
+                  <pre className="max-h-48 overflow-auto bg-white border border-slate-100 rounded-xl p-3 text-[10px] font-mono whitespace-pre-wrap break-all text-slate-600">
+                    {buildPayloadPreview(
+                      (files.length > 0 ? files : DEMO_DRIVE.items).filter(f => !isFolder(f)).slice(0, 3),
+                      tempProvider.provider,
+                      tempPrivacy.redactNames,
+                      rules
+                    )}
+                  </pre>
+                </div>
+              </div>
+
               <div className="p-5 bg-indigo-50 rounded-2xl border border-indigo-100">
                 <p className="text-xs text-indigo-700 leading-relaxed">
                   <strong>Note:</strong> After saving, the app will reload. Ensure your project's <strong>OAuth Consent Screen</strong> is set to "External" and you have added yourself as a <strong>Test User</strong> if the app is not published.
@@ -0,0 +1,91 @@
+import { DriveFile, ReviewSort } from "../types.ts";
+import { generateLargeDrive } from "../fixtures/largeDrive.ts";
+import { isFolder, buildFolderTree, folderParentMap } from "../services/folderTree.ts";
+import { analyzeFilesLocally } from "../services/localAnalyzer.ts";
+import { DEFAULT_RULES } from "../services/rulesEngine.ts";
+import { DEFAULT_NEAR_DUPLICATE_SETTINGS } from "../services/nearDuplicates.ts";
+import { DEFAULT_REVIEW_FILTERS } from "../services/reviewFilters.ts";
+import { ReviewIndex } from "../services/reviewIndex.ts";
+import { SelectionSet } from "../utils/selection.ts";
+
+export interface BenchmarkOptions {
+  fileCount?: number;
+  seed?: number;
+  // Each measurement is repeated this many times and the median is reported.
+  runs?: number;
+}
+
+export interface BenchmarkResult {
+  name: string;
+  medianMs: number;
+}
+
+export interface BenchmarkReport {
+  fileCount: number;
+  candidateCount: number;
+  results: BenchmarkResult[];
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const measure = (name: string, runs: number, fn: () => void): BenchmarkResult => {
+  const times: number[] = [];
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now();
+    fn();
+    times.push(performance.now() - start);
+  }
+  return { name, medianMs: median(times) };
+};
+
+// Everything the review screen computes locally for one scan, timed on a generated drive. The fixture
+// and the analyzer clock are fixed, so runs on the same machine are directly comparable.
+export const runReviewBenchmark = ({ fileCount = 50_000, seed = 1, runs = 5 }: BenchmarkOptions = {}): BenchmarkReport => {
+  const drive = generateLargeDrive({ fileCount, seed });
+  const files: DriveFile[] = drive.items.filter(f => !isFolder(f));
+  const tree = buildFolderTree(drive.items, drive.rootFolderId);
+  const analyzerOptions = {
+    rules: DEFAULT_RULES,
+    now: new Date('2026-01-01T00:00:00Z'),
+    folderParents: folderParentMap(tree),
+    nearDuplicates: DEFAULT_NEAR_DUPLICATE_SETTINGS,
+    sharing: { internalDomains: ['example.com'] },
+  };
+
+  const results: BenchmarkResult[] = [];
+  results.push(measure('Local analysis', runs, () => analyzeFilesLocally(files, analyzerOptions)));
+  const { candidates } = analyzeFilesLocally(files, analyzerOptions);
+
+  const index = new ReviewIndex();
+  results.push(measure('Index dataset', runs, () => index.setDataset(files, candidates)));
+  results.push(measure('Duplicate groups', runs, () => index.duplicateGroups()));
+  for (const sortBy of ['confidence', 'size', 'date'] as ReviewSort[]) {
+    results.push(measure(`Filter, sort by ${sortBy}`, runs, () => index.filter({ ...DEFAULT_REVIEW_FILTERS, sortBy })));
+  }
+  results.push(measure('Filter by search', runs, () => index.filter({ ...DEFAULT_REVIEW_FILTERS, search: 'budget' })));
+
+  // Two hundred clicks on a selection holding every candidate.
+  const ids = candidates.map(c => c.id);
+  const clicks = ids.slice(0, 200);
+  results.push(measure('200 toggles, SelectionSet', runs, () => {
+    let selection = SelectionSet.of(ids);
+    for (const id of clicks) selection = selection.toggle(id);
+  }));
+  results.push(measure('200 toggles, copied Set', runs, () => {
+    let selection = new Set(ids);
+    for (const id of clicks) {
+      selection = new Set(selection);
+      if (selection.has(id)) selection.delete(id); else selection.add(id);
+    }
+  }));
+
+  // Looking up the candidate behind each visible card.
+  const byId = new Map(candidates.map(c => [c.id, c]));
+  results.push(measure('200 candidate lookups, Map', runs, () => { for (const id of clicks) byId.get(id); }));
+  results.push(measure('200 candidate lookups, Array.find', runs, () => { for (const id of clicks) candidates.find(c => c.id === id); }));
+
+  return { fileCount: files.length, candidateCount: candidates.length, results };
+};
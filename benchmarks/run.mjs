@@ -0,0 +1,17 @@
+// Runs the review benchmark in Node through Vite, so the app's .ts modules load unchanged.
+// Usage: npm run benchmark -- [fileCount] [seed]
+import { createServer } from 'vite';
+
+const [fileCount = '50000', seed = '1'] = process.argv.slice(2);
+
+const server = await createServer({ server: { middlewareMode: true }, appType: 'custom', logLevel: 'error' });
+try {
+  const { runReviewBenchmark } = await server.ssrLoadModule('/benchmarks/reviewBenchmark.ts');
+  const report = runReviewBenchmark({ fileCount: Number(fileCount), seed: Number(seed) });
+  console.log(`${report.fileCount} files, ${report.candidateCount} candidates (seed ${seed}, median of 5 runs)`);
+  for (const { name, medianMs } of report.results) {
+    console.log(`${name.padEnd(40)} ${medianMs.toFixed(1).padStart(10)} ms`);
+  }
+} finally {
+  await server.close();
+}
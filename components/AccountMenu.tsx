@@ -0,0 +1,42 @@
+
+import React from 'react';
+import { DriveUser } from '../types.ts';
+
+interface AccountMenuProps {
+  account: DriveUser;
+  // Every signed-in Google account; empty for the demo Drive.
+  accounts: DriveUser[];
+  // Switching mid-scan or mid-purge would send the rest of the calls to another account.
+  disabled: boolean;
+  onSwitch: (email: string) => void;
+  onAddAccount: () => void;
+  onSignOut: () => void;
+}
+
+const AccountMenu: React.FC<AccountMenuProps> = ({ account, accounts, disabled, onSwitch, onAddAccount, onSignOut }) => {
+  const linkClass = "text-[10px] font-black uppercase tracking-widest text-slate-400 transition-colors disabled:opacity-40";
+
+  return (
+    <div className="hidden md:flex items-center gap-3 pr-2 border-r border-slate-100">
+      <div className="text-right">
+        <span className="block text-xs font-bold text-slate-900">{account.displayName || 'Signed in'}</span>
+        {accounts.length > 1 ? (
+          <select
+            value={account.emailAddress}
+            onChange={(e) => onSwitch(e.target.value)}
+            disabled={disabled}
+            className="text-[11px] text-slate-400 bg-transparent outline-none text-right cursor-pointer"
+          >
+            {accounts.map(a => <option key={a.emailAddress} value={a.emailAddress}>{a.emailAddress}</option>)}
+          </select>
+        ) : (
+          <span className="block text-[11px] text-slate-400">{account.emailAddress}</span>
+        )}
+      </div>
+      <button onClick={onAddAccount} disabled={disabled} className={`${linkClass} hover:text-indigo-600`} title="Sign in with another Google account">+ Account</button>
+      <button onClick={onSignOut} disabled={disabled} className={`${linkClass} hover:text-rose-600`}>Sign out</button>
+    </div>
+  );
+};
+
+export default AccountMenu;
@@ -0,0 +1,163 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { ChatMessage, AgentProposal, DriveFile } from '../types.ts';
+import { CleanupAgent, createCleanupAgent } from '../services/cleanupAgent.ts';
+import { AgentContext } from '../services/agentTools.ts';
+import { sumBytes } from '../services/reviewFilters.ts';
+import { formatBytes } from '../utils/format.ts';
+
+interface AgentChatPanelProps {
+  context: AgentContext;
+  onApply: (proposal: AgentProposal) => void;
+}
+
+// Lines shown per side of a diff before it is collapsed into a count.
+const DIFF_PREVIEW = 8;
+
+const DiffLines: React.FC<{ ids: string[]; sign: '+' | '-'; filesById: Map<string, DriveFile> }> = ({ ids, sign, filesById }) => {
+  if (ids.length === 0) return null;
+  const color = sign === '+' ? 'text-rose-700 bg-rose-50' : 'text-emerald-700 bg-emerald-50';
+  return (
+    <ul className="font-mono text-[11px] space-y-0.5">
+      {ids.slice(0, DIFF_PREVIEW).map(id => (
+        <li key={id} className={`px-2 py-0.5 rounded truncate ${color}`}>{sign} {filesById.get(id)?.name || id}</li>
+      ))}
+      {ids.length > DIFF_PREVIEW && <li className="px-2 text-slate-400">… and {ids.length - DIFF_PREVIEW} more</li>}
+    </ul>
+  );
+};
+
+const ProposalDiff: React.FC<{
+  proposal: AgentProposal;
+  filesById: Map<string, DriveFile>;
+  onAccept: () => void;
+  onReject: () => void;
+}> = ({ proposal, filesById, onAccept, onReject }) => (
+  <div className="mt-3 p-4 rounded-2xl border border-slate-200 bg-white space-y-2">
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-xs font-bold text-slate-900">{proposal.description}</span>
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 whitespace-nowrap">
+        {proposal.select.length > 0 && `+${proposal.select.length} (${formatBytes(sumBytes(proposal.select, filesById))})`}
+        {proposal.deselect.length > 0 && ` −${proposal.deselect.length} (${formatBytes(sumBytes(proposal.deselect, filesById))})`}
+      </span>
+    </div>
+    <DiffLines ids={proposal.select} sign="+" filesById={filesById} />
+    <DiffLines ids={proposal.deselect} sign="-" filesById={filesById} />
+    {proposal.newCandidates.length > 0 && (
+      <p className="text-[11px] text-slate-500">{proposal.newCandidates.length} of these were not flagged yet and will be added to the candidates.</p>
+    )}
+    {proposal.skipped > 0 && (
+      <p className="text-[11px] text-emerald-700">{proposal.skipped} protected or kept files were left out.</p>
+    )}
+    {proposal.status === 'pending' ? (
+      <div className="flex gap-2 pt-1">
+        <button onClick={onAccept} className="px-4 py-1.5 rounded-full bg-indigo-600 text-white text-[11px] font-black uppercase tracking-widest hover:bg-indigo-700">Accept</button>
+        <button onClick={onReject} className="px-4 py-1.5 rounded-full border border-slate-200 text-slate-500 text-[11px] font-black uppercase tracking-widest hover:text-rose-600">Reject</button>
+      </div>
+    ) : (
+      <span className={`text-[10px] font-black uppercase tracking-widest ${proposal.status === 'accepted' ? 'text-indigo-600' : 'text-slate-400'}`}>
+        {proposal.status}
+      </span>
+    )}
+  </div>
+);
+
+const AgentChatPanel: React.FC<AgentChatPanelProps> = ({ context, onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const agentRef = useRef<CleanupAgent | null>(null);
+  // Tools read the latest review state, not the one captured when the message was sent.
+  const contextRef = useRef(context);
+  contextRef.current = context;
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  if (!agentRef.current) agentRef.current = createCleanupAgent();
+  const agent = agentRef.current;
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages, busy]);
+
+  const send = async () => {
+    const text = draft.trim();
+    if (!text || busy) return;
+    setDraft('');
+    setMessages(prev => [...prev, { role: 'user', text }]);
+    setBusy(true);
+    try {
+      const reply = await agent.send(text, () => contextRef.current);
+      setMessages(prev => [...prev, { role: 'agent', text: reply.text, proposals: reply.proposals }]);
+    } catch (error) {
+      console.error("Agent request failed:", error);
+      setMessages(prev => [...prev, { role: 'agent', text: `Sorry, that request failed: ${error instanceof Error ? error.message : String(error)}` }]);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resolve = (proposal: AgentProposal, status: 'accepted' | 'rejected') => {
+    if (status === 'accepted') onApply(proposal);
+    setMessages(prev => prev.map(m => m.proposals?.some(p => p.id === proposal.id)
+      ? { ...m, proposals: m.proposals.map(p => p.id === proposal.id ? { ...p, status } : p) }
+      : m));
+  };
+
+  return (
+    <div className="mb-8 bg-white rounded-3xl border border-slate-100 shadow-sm overflow-hidden">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full px-6 py-4 flex items-center justify-between text-left">
+        <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em]">Ask the Agent</span>
+        <span className="text-xs text-slate-400">{isOpen ? 'Hide' : 'e.g. "keep everything in the Finance folder"'}</span>
+      </button>
+      {isOpen && (
+        <div className="border-t border-slate-100">
+          {!agent.isConfigured() ? (
+            <p className="px-6 py-5 text-sm text-slate-500">Chat needs a Gemini API key. Add one in Settings to refine the selection conversationally.</p>
+          ) : (
+            <>
+              <div ref={scrollRef} className="max-h-96 overflow-y-auto px-6 py-4 space-y-4">
+                {messages.length === 0 && (
+                  <p className="text-sm text-slate-400">Tell the agent what to keep or flag. Every change it suggests is shown as a diff for you to accept or reject.</p>
+                )}
+                {messages.map((m, i) => (
+                  <div key={i} className={m.role === 'user' ? 'text-right' : ''}>
+                    <div className={`inline-block max-w-[85%] text-left px-4 py-2 rounded-2xl text-sm whitespace-pre-wrap ${
+                      m.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-700'
+                    }`}>
+                      {m.text}
+                    </div>
+                    {m.proposals?.map(p => (
+                      <ProposalDiff
+                        key={p.id}
+                        proposal={p}
+                        filesById={context.filesById}
+                        onAccept={() => resolve(p, 'accepted')}
+                        onReject={() => resolve(p, 'rejected')}
+                      />
+                    ))}
+                  </div>
+                ))}
+                {busy && <p className="text-xs text-slate-400 animate-pulse">Thinking…</p>}
+              </div>
+              <form onSubmit={(e) => { e.preventDefault(); send(); }} className="flex gap-3 px-6 py-4 border-t border-slate-100">
+                <input
+                  type="text"
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  placeholder='Also flag screenshots older than 6 months'
+                  className="flex-1 bg-slate-50 border-2 border-slate-100 rounded-2xl px-4 py-2 text-sm focus:border-indigo-600 outline-none"
+                />
+                <button type="submit" disabled={busy || !draft.trim()} className="px-6 py-2 rounded-2xl bg-slate-900 text-white text-xs font-black uppercase tracking-widest disabled:opacity-40">
+                  Send
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AgentChatPanel;
@@ -0,0 +1,63 @@
+
+import React, { useState } from 'react';
+import { Allowlist } from '../types.ts';
+
+interface AllowlistModalProps {
+  allowlist: Allowlist;
+  onSave: (allowlist: Allowlist) => void;
+  onClose: () => void;
+}
+
+const toLines = (values: string[]) => values.join('\n');
+const fromLines = (text: string) => text.split('\n').map(v => v.trim()).filter(Boolean);
+
+const AllowlistModal: React.FC<AllowlistModalProps> = ({ allowlist, onSave, onClose }) => {
+  const [nameGlobs, setNameGlobs] = useState(toLines(allowlist.nameGlobs));
+  const [folderIds, setFolderIds] = useState(toLines(allowlist.folderIds));
+  const [fileIds, setFileIds] = useState(toLines(allowlist.fileIds));
+
+  const textareaClass = "w-full h-28 bg-slate-50 border-2 border-slate-100 rounded-2xl px-5 py-4 font-mono text-sm focus:border-indigo-600 outline-none transition-all";
+  const labelClass = "block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] mb-3";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white rounded-[40px] p-10 shadow-2xl animate-in zoom-in-95 duration-300">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-3xl font-black text-slate-900 tracking-tight">Protected Files</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">&times;</button>
+        </div>
+        <p className="text-slate-500 text-sm mb-8">
+          Starred, shared and not-owned files are always protected. Add your own entries below, one per line. Protected files are never preselected or trashed.
+        </p>
+
+        <div className="space-y-6">
+          <div>
+            <label className={labelClass}>Name patterns</label>
+            <textarea value={nameGlobs} onChange={(e) => setNameGlobs(e.target.value)} className={textareaClass} placeholder={"*.key\nTax_Return_*"} />
+          </div>
+          <div>
+            <label className={labelClass}>Folder IDs (includes subfolders)</label>
+            <textarea value={folderIds} onChange={(e) => setFolderIds(e.target.value)} className={textareaClass} />
+          </div>
+          <div>
+            <label className={labelClass}>File IDs</label>
+            <textarea value={fileIds} onChange={(e) => setFileIds(e.target.value)} className={textareaClass} />
+          </div>
+
+          <div className="flex gap-4">
+            <button onClick={onClose} className="flex-1 px-8 py-4 font-bold text-slate-400">Cancel</button>
+            <button
+              onClick={() => onSave({ nameGlobs: fromLines(nameGlobs), folderIds: fromLines(folderIds), fileIds: fromLines(fileIds) })}
+              className="flex-1 bg-indigo-600 text-white px-8 py-4 rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-all"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AllowlistModal;
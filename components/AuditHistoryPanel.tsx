@@ -0,0 +1,176 @@
+
+import React, { useMemo, useState } from 'react';
+import { AuditRun, AuditCandidateRecord } from '../types.ts';
+import { diffAuditRuns } from '../services/auditHistory.ts';
+import { formatBytes } from '../utils/format.ts';
+
+interface AuditHistoryPanelProps {
+  runs: AuditRun[];
+  // Older runs may still hold privacy-mode tokens; names from the current scan are put back.
+  revealNames?: (text: string) => string;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeModel = (run: AuditRun) => run.provenance.aiApplied
+  ? `${run.provenance.model} • prompt ${run.provenance.promptVersion}`
+  : `Local rules only${run.provenance.provider !== 'heuristic' ? ` (${run.provenance.model} unavailable)` : ''}`;
+
+const describeOutcome = (run: AuditRun) => {
+  if (!run.purge) return 'Not purged';
+  const count = (status: string) => run.purge!.results.filter(r => r.status === status).length;
+  const prefix = run.purge.dryRun ? 'Dry run: ' : '';
+  return `${prefix}${count('succeeded')} done • ${count('failed')} failed • ${count('skipped')} skipped`;
+};
+
+const CandidateRow: React.FC<{ candidate: AuditCandidateRecord; detail?: React.ReactNode }> = ({ candidate, detail }) => (
+  <li className="flex items-baseline gap-4 py-2 text-sm">
+    <span className="flex-1 min-w-0">
+      <span className="font-semibold text-slate-900 truncate block" title={candidate.name}>{candidate.name}</span>
+      <span className="text-xs text-slate-500 block truncate" title={candidate.reason}>{candidate.category.replace('_', ' ')}: {candidate.reason}</span>
+    </span>
+    <span className="text-xs text-slate-400 whitespace-nowrap">{formatBytes(candidate.bytes)}</span>
+    <span className="text-xs font-bold text-slate-700 whitespace-nowrap">{detail ?? pct(candidate.confidence)}</span>
+  </li>
+);
+
+const DiffSection: React.FC<{ title: string; color: string; children: React.ReactNode; count: number }> = ({ title, color, children, count }) => (
+  <div className={`p-6 rounded-3xl border ${color}`}>
+    <h5 className="font-black uppercase text-xs tracking-widest mb-3">{title} ({count})</h5>
+    {count === 0 ? <p className="text-sm opacity-70">None.</p> : <ul className="divide-y divide-white/60">{children}</ul>}
+  </div>
+);
+
+const AuditHistoryPanel: React.FC<AuditHistoryPanelProps> = ({ runs: storedRuns, revealNames, onDelete, onClose }) => {
+  const runs = useMemo(() => revealNames
+    ? storedRuns.map(run => ({
+        ...run,
+        summary: revealNames(run.summary),
+        candidates: run.candidates.map(c => ({ ...c, reason: revealNames(c.reason) })),
+      }))
+    : storedRuns, [storedRuns, revealNames]);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+
+  // Keeps at most two runs picked; picking a third drops the oldest pick.
+  const toggleCompare = (id: string) => {
+    setCompareIds(compareIds.includes(id) ? compareIds.filter(c => c !== id) : [...compareIds, id].slice(-2));
+  };
+
+  const picked = runs.filter(r => compareIds.includes(r.id)).sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  const [older, newer] = picked;
+  const diff = older && newer ? diffAuditRuns(older, newer) : null;
+  const query = search.trim().toLowerCase();
+
+  return (
+    <div className="animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 mb-12">
+        <div>
+          <h3 className="text-4xl font-black tracking-tight text-slate-900 mb-2">Audit History</h3>
+          <p className="text-slate-500 font-medium max-w-2xl">Every audit with the model and prompt that produced it. Pick two runs to see what changed between them.</p>
+        </div>
+        <button onClick={onClose} className="px-8 py-4 font-bold text-slate-400 hover:text-slate-600">Back</button>
+      </div>
+
+      {runs.length === 0 && (
+        <p className="py-24 text-center text-slate-400 font-medium">No audits recorded yet.</p>
+      )}
+
+      {diff && (
+        <div className="mb-12 space-y-4">
+          <div className="p-6 bg-white rounded-3xl border border-slate-100 shadow-sm">
+            <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] block mb-2">Comparing</span>
+            <p className="text-sm text-slate-700">
+              <strong>{new Date(older.startedAt).toLocaleString()}</strong> ({describeModel(older)}, {older.candidates.length} flagged)
+              {' → '}
+              <strong>{new Date(newer.startedAt).toLocaleString()}</strong> ({describeModel(newer)}, {newer.candidates.length} flagged)
+            </p>
+            {(older.provenance.model !== newer.provenance.model || older.provenance.promptVersion !== newer.provenance.promptVersion) && (
+              <p className="text-xs text-amber-700 mt-2">The model or prompt changed between these runs.</p>
+            )}
+          </div>
+          <DiffSection title="Newly Flagged" color="text-rose-700 bg-rose-50 border-rose-100" count={diff.newlyFlagged.length}>
+            {diff.newlyFlagged.map(c => <CandidateRow key={c.id} candidate={c} />)}
+          </DiffSection>
+          <DiffSection title="No Longer Flagged" color="text-emerald-700 bg-emerald-50 border-emerald-100" count={diff.noLongerFlagged.length}>
+            {diff.noLongerFlagged.map(c => <CandidateRow key={c.id} candidate={c} />)}
+          </DiffSection>
+          <DiffSection title="Score Changes" color="text-slate-700 bg-slate-50 border-slate-100" count={diff.changed.length}>
+            {diff.changed.map(({ before, after }) => {
+              const delta = after.confidence - before.confidence;
+              return (
+                <CandidateRow
+                  key={after.id}
+                  candidate={after}
+                  detail={
+                    <>
+                      {pct(before.confidence)} → {pct(after.confidence)}{' '}
+                      <span className={delta > 0 ? 'text-rose-600' : 'text-emerald-600'}>({delta > 0 ? '+' : ''}{Math.round(delta * 100)})</span>
+                      {before.category !== after.category && <span className="block text-slate-400 font-normal">{before.category} → {after.category}</span>}
+                    </>
+                  }
+                />
+              );
+            })}
+          </DiffSection>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {runs.map(run => {
+          const isExpanded = expandedId === run.id;
+          const selected = new Set(run.selectedIds);
+          const shown = run.candidates.filter(c => !query || c.name.toLowerCase().includes(query) || c.reason.toLowerCase().includes(query));
+          return (
+            <div key={run.id} className="p-6 bg-white rounded-3xl border border-slate-100 shadow-sm">
+              <div className="flex items-center gap-4">
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(run.id)}
+                  onChange={() => toggleCompare(run.id)}
+                  title="Compare this run"
+                  className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <div className="flex-1 min-w-0">
+                  <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] block">
+                    {new Date(run.startedAt).toLocaleString()}{run.accountEmail ? ` • ${run.accountEmail}` : ''}{run.scope ? ` • ${run.scope}` : ''}
+                  </span>
+                  <span className="text-sm font-bold text-slate-700">
+                    {run.candidates.length} of {run.fileCount} files flagged • {run.selectedIds.length} selected • {describeOutcome(run)}
+                  </span>
+                  <span className="text-xs text-slate-400 block">{describeModel(run)}</span>
+                </div>
+                <button onClick={() => setExpandedId(isExpanded ? null : run.id)} className="text-xs font-black text-indigo-600 hover:underline">
+                  {isExpanded ? 'Hide' : 'Details'}
+                </button>
+                <button onClick={() => onDelete(run.id)} className="text-xs font-black text-slate-300 hover:text-rose-600">Delete</button>
+              </div>
+              {isExpanded && (
+                <div className="mt-4 pt-4 border-t border-slate-50">
+                  <p className="text-xs text-slate-500 mb-3">{run.summary}</p>
+                  <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Find a file or reason..."
+                    className="w-full mb-3 bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs focus:border-indigo-600 outline-none"
+                  />
+                  <ul className="divide-y divide-slate-50 max-h-96 overflow-y-auto">
+                    {shown.map(c => (
+                      <CandidateRow key={c.id} candidate={c} detail={<>{selected.has(c.id) ? '✓ ' : ''}{pct(c.confidence)}</>} />
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AuditHistoryPanel;
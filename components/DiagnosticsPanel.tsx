@@ -0,0 +1,50 @@
+
+import React from 'react';
+import { AnalysisDiagnostic, AnalysisDiagnosticKind } from '../types.ts';
+
+interface DiagnosticsPanelProps {
+  diagnostics: AnalysisDiagnostic[];
+}
+
+const KIND_LABELS: Record<AnalysisDiagnosticKind, string> = {
+  unparseable_response: 'Unparseable responses',
+  malformed_entry: 'Malformed entries',
+  unknown_id: 'Hallucinated file IDs',
+  invalid_category: 'Unknown categories',
+  normalized_category: 'Normalized categories',
+  clamped_confidence: 'Clamped scores',
+  repeated_entry: 'Collapsed repeats',
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics }) => {
+  if (diagnostics.length === 0) return null;
+
+  const grouped = diagnostics.reduce((acc, d) => {
+    (acc[d.kind] = acc[d.kind] || []).push(d);
+    return acc;
+  }, {} as Partial<Record<AnalysisDiagnosticKind, AnalysisDiagnostic[]>>);
+
+  return (
+    <details className="mt-12 p-6 bg-white rounded-3xl border border-slate-100 shadow-sm">
+      <summary className="cursor-pointer text-[11px] font-black text-slate-400 uppercase tracking-[0.2em]">
+        Diagnostics • {diagnostics.length} model issue{diagnostics.length === 1 ? '' : 's'} corrected or rejected
+      </summary>
+      <div className="mt-6 space-y-6">
+        {(Object.keys(grouped) as AnalysisDiagnosticKind[]).map(kind => (
+          <div key={kind}>
+            <h5 className="text-xs font-black text-indigo-600 uppercase tracking-widest mb-2">
+              {KIND_LABELS[kind]} ({grouped[kind]!.length})
+            </h5>
+            <ul className="space-y-1">
+              {grouped[kind]!.map((d, i) => (
+                <li key={`${kind}-${i}`} className="text-xs text-slate-500 font-mono truncate" title={d.detail}>{d.detail}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,113 @@
+
+import React, { useState } from 'react';
+import { DriveFile, DuplicateGroup, SurvivorStrategy } from '../types.ts';
+import { FolderTree } from '../services/folderTree.ts';
+import { formatBytes } from '../utils/format.ts';
+import { storageBytes } from '../services/storageQuota.ts';
+
+interface DuplicateGroupsPanelProps {
+  groups: DuplicateGroup[];
+  files: DriveFile[];
+  folderTree: FolderTree | null;
+  selectedIds: ReadonlySet<string>;
+  onToggle: (id: string) => void;
+  onSetSurvivor: (groupKey: string, fileId: string) => void;
+  onApplyStrategy: (strategy: SurvivorStrategy, preferredFolderId?: string) => void;
+}
+
+const STRATEGIES: { id: SurvivorStrategy; label: string }[] = [
+  { id: 'newest', label: 'Keep newest' },
+  { id: 'oldest', label: 'Keep oldest' },
+  { id: 'shortestName', label: 'Keep shortest name' },
+  { id: 'preferredFolder', label: 'Keep copy in folder' },
+];
+
+const DuplicateGroupsPanel: React.FC<DuplicateGroupsPanelProps> = ({
+  groups, files, folderTree, selectedIds, onToggle, onSetSurvivor, onApplyStrategy
+}) => {
+  const byId = new Map<string, DriveFile>(files.map(f => [f.id, f]));
+  const folderName = (id?: string) => (id && folderTree?.byId.get(id)?.name) || 'Unknown folder';
+  // Only folders that actually hold a copy are worth offering as the preferred location.
+  const folderOptions = Array.from(new Set(groups.flatMap(g => g.fileIds.map(id => byId.get(id)?.parents?.[0]).filter(Boolean)))) as string[];
+  const [preferredFolderId, setPreferredFolderId] = useState<string>(folderOptions[0] || '');
+
+  if (groups.length === 0) {
+    return <p className="py-24 text-center text-slate-400 font-medium">No duplicate groups in this audit.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 p-5 bg-white rounded-3xl border border-slate-100 shadow-sm">
+        <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] mr-2">Apply to all groups</span>
+        {STRATEGIES.map(s => (
+          <button
+            key={s.id}
+            onClick={() => onApplyStrategy(s.id, s.id === 'preferredFolder' ? preferredFolderId : undefined)}
+            disabled={s.id === 'preferredFolder' && !preferredFolderId}
+            className="px-4 py-2 rounded-full border border-slate-100 text-xs font-bold text-slate-600 hover:border-indigo-200 hover:text-indigo-600 transition-all disabled:opacity-40"
+          >
+            {s.label}
+          </button>
+        ))}
+        {folderOptions.length > 0 && (
+          <select
+            value={preferredFolderId}
+            onChange={(e) => setPreferredFolderId(e.target.value)}
+            className="bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs focus:border-indigo-600 outline-none"
+          >
+            {folderOptions.map(id => <option key={id} value={id}>{folderName(id)}</option>)}
+          </select>
+        )}
+      </div>
+
+      {groups.map(group => {
+        const members = group.fileIds.map(id => byId.get(id)).filter((f): f is DriveFile => Boolean(f));
+        const reclaimable = members.filter(m => selectedIds.has(m.id)).reduce((sum, m) => sum + storageBytes(m), 0);
+        return (
+          <div key={group.key} className="p-6 bg-white rounded-3xl border border-slate-100 shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+              <h5 className="text-sm font-black text-slate-900 truncate" title={members[0]?.name}>{members[0]?.name}</h5>
+              <span className="text-xs text-slate-500">{members.length} copies • {formatBytes(reclaimable)} to reclaim</span>
+            </div>
+            <ul className="divide-y divide-slate-50">
+              {members.map(file => {
+                const isSurvivor = file.id === group.survivorId;
+                return (
+                  <li key={file.id} className="flex items-center gap-4 py-2">
+                    <input
+                      type="radio"
+                      name={`survivor-${group.key}`}
+                      checked={isSurvivor}
+                      onChange={() => onSetSurvivor(group.key, file.id)}
+                      title="Keep this copy"
+                      className="w-4 h-4 text-emerald-600 focus:ring-emerald-500"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-slate-900 truncate">{file.name}</p>
+                      <p className="text-xs text-slate-500 truncate">📁 {folderName(file.parents?.[0])} • {new Date(file.modifiedTime).toLocaleDateString()}</p>
+                    </div>
+                    {isSurvivor ? (
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-emerald-600">Keep</span>
+                    ) : (
+                      <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-500 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(file.id)}
+                          onChange={() => onToggle(file.id)}
+                          className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Trash
+                      </label>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DuplicateGroupsPanel;
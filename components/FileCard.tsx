@@ -1,22 +1,41 @@
 
-import React from 'react';
-import { DriveFile, CleanupCandidate } from '../types.ts';
+import React, { useState } from 'react';
+import { DriveFile, CleanupCandidate, PurgeAction, ExposureSeverity, PURGE_ACTIONS } from '../types.ts';
+import { formatBytes } from '../utils/format.ts';
+import { PURGE_ACTION_LABELS } from '../services/archiveService.ts';
 
 interface FileCardProps {
   file: DriveFile;
   candidate?: CleanupCandidate;
   onSelect: (id: string) => void;
   isSelected: boolean;
+  // Set when the file must never be trashed; the card then cannot be selected.
+  protectionReason?: string | null;
+  // Which drive the file lives in; only passed when the audit spans more than My Drive.
+  driveName?: string;
+  // The file a near duplicate was matched against, shown side by side on request.
+  relatedFile?: DriveFile;
+  // What the purge does with this file once selected.
+  action?: PurgeAction;
+  onActionChange?: (id: string, action: PurgeAction) => void;
+  // The actions this file may take; defaults to every one except restricting sharing.
+  actions?: PurgeAction[];
+  // Maps tokenized names in a reason written under privacy mode back to the real ones.
+  revealNames?: (text: string) => string;
 }
 
-const FileCard: React.FC<FileCardProps> = ({ file, candidate, onSelect, isSelected }) => {
-  const formatSize = (bytes?: string) => {
-    if (!bytes) return 'Unknown size';
-    const num = parseInt(bytes);
-    if (num > 1024 * 1024 * 1024) return (num / (1024 * 1024 * 1024)).toFixed(1) + ' GB';
-    if (num > 1024 * 1024) return (num / (1024 * 1024)).toFixed(1) + ' MB';
-    return (num / 1024).toFixed(1) + ' KB';
-  };
+const Thumbnail: React.FC<{ file: DriveFile; className: string }> = ({ file, className }) => (
+  <div className={`${className} rounded-lg bg-slate-50 flex items-center justify-center overflow-hidden flex-shrink-0`}>
+    {file.thumbnailLink ? (
+      <img src={file.thumbnailLink} alt="" className="w-full h-full object-cover" />
+    ) : (
+      <span className="text-2xl">📄</span>
+    )}
+  </div>
+);
+
+const FileCard: React.FC<FileCardProps> = ({ file, candidate, onSelect, isSelected, protectionReason, driveName, relatedFile, action = 'trash', onActionChange, revealNames, actions = PURGE_ACTIONS.filter(a => a !== 'restrict') }) => {
+  const [isComparing, setIsComparing] = useState(false);
 
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString();
@@ -25,53 +44,109 @@ const FileCard: React.FC<FileCardProps> = ({ file, candidate, onSelect, isSelect
   const getCategoryColor = (category?: string) => {
     switch (category) {
       case 'duplicate': return 'bg-amber-100 text-amber-700 border-amber-200';
+      case 'near_duplicate': return 'bg-orange-100 text-orange-700 border-orange-200';
       case 'large': return 'bg-rose-100 text-rose-700 border-rose-200';
       case 'old': return 'bg-slate-100 text-slate-700 border-slate-200';
+      case 'exposed': return 'bg-fuchsia-100 text-fuchsia-700 border-fuchsia-200';
       default: return 'bg-blue-100 text-blue-700 border-blue-200';
     }
   };
 
+  const getSeverityColor = (severity: ExposureSeverity) => {
+    switch (severity) {
+      case 'high': return 'bg-rose-600 text-white border-rose-600';
+      case 'medium': return 'bg-amber-100 text-amber-800 border-amber-300';
+      default: return 'bg-slate-100 text-slate-600 border-slate-200';
+    }
+  };
+
   return (
     <div 
-      onClick={() => onSelect(file.id)}
-      className={`group relative p-4 rounded-xl border-2 transition-all cursor-pointer ${
-        isSelected 
-        ? 'border-indigo-500 bg-indigo-50 shadow-md' 
-        : 'border-transparent bg-white hover:border-slate-200 hover:shadow-sm'
+      onClick={() => { if (!protectionReason) onSelect(file.id); }}
+      className={`group relative p-4 rounded-xl border-2 transition-all ${
+        protectionReason
+        ? 'border-emerald-100 bg-emerald-50/40 cursor-not-allowed'
+        : isSelected 
+        ? 'border-indigo-500 bg-indigo-50 shadow-md cursor-pointer' 
+        : 'border-transparent bg-white hover:border-slate-200 hover:shadow-sm cursor-pointer'
       }`}
     >
       <div className="flex items-start gap-4">
-        <div className="w-12 h-12 rounded-lg bg-slate-50 flex items-center justify-center overflow-hidden flex-shrink-0">
-          {file.thumbnailLink ? (
-            <img src={file.thumbnailLink} alt="" className="w-full h-full object-cover" />
-          ) : (
-            <span className="text-2xl">📄</span>
-          )}
-        </div>
+        <Thumbnail file={file} className="w-12 h-12" />
         <div className="flex-1 min-w-0">
           <h4 className="text-sm font-semibold text-slate-900 truncate" title={file.name}>
             {file.name}
           </h4>
           <div className="flex items-center gap-2 mt-1">
-            <span className="text-xs text-slate-500">{formatSize(file.size)}</span>
+            <span className="text-xs text-slate-500">{formatBytes(file.size ?? file.quotaBytesUsed)}</span>
             <span className="text-xs text-slate-300">•</span>
             <span className="text-xs text-slate-500">{formatDate(file.modifiedTime)}</span>
+            {driveName && (
+              <>
+                <span className="text-xs text-slate-300">•</span>
+                <span className="text-xs text-slate-500 truncate" title={driveName}>🗂 {driveName}</span>
+              </>
+            )}
           </div>
           {candidate && (
             <div className={`mt-2 inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider border ${getCategoryColor(candidate.category)}`}>
-              {candidate.category}: {candidate.reason}
+              {candidate.category.replace('_', ' ')}: {revealNames ? revealNames(candidate.reason) : candidate.reason}
+            </div>
+          )}
+          {candidate?.severity && (
+            <div className={`mt-2 ml-1 inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider border ${getSeverityColor(candidate.severity)}`}>
+              🔓 {candidate.severity} exposure
+            </div>
+          )}
+          {isSelected && !protectionReason && onActionChange && (
+            <select
+              value={action}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => onActionChange(file.id, e.target.value as PurgeAction)}
+              className="block mt-2 bg-white border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-semibold text-slate-600 outline-none focus:border-indigo-600"
+            >
+              {actions.map(a => <option key={a} value={a}>{PURGE_ACTION_LABELS[a]}</option>)}
+            </select>
+          )}
+          {relatedFile && (
+            <button
+              onClick={(e) => { e.stopPropagation(); setIsComparing(!isComparing); }}
+              className="block mt-2 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800"
+            >
+              {isComparing ? 'Hide comparison' : 'Compare side by side'}
+            </button>
+          )}
+          {protectionReason && (
+            <div className="mt-2 inline-flex items-center px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider border bg-emerald-100 text-emerald-700 border-emerald-200">
+              🛡 Protected: {protectionReason}
             </div>
           )}
         </div>
         <div className="flex-shrink-0">
            <input 
               type="checkbox" 
-              checked={isSelected} 
+              checked={isSelected && !protectionReason} 
+              disabled={Boolean(protectionReason)}
               readOnly 
               className="w-5 h-5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" 
             />
         </div>
       </div>
+      {relatedFile && isComparing && (
+        <div className="grid grid-cols-2 gap-3 mt-4 pt-4 border-t border-slate-100" onClick={(e) => e.stopPropagation()}>
+          {[{ label: 'This file', item: file }, { label: 'Matched with', item: relatedFile }].map(({ label, item }) => (
+            <div key={label} className="min-w-0">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 block mb-2">{label}</span>
+              <Thumbnail file={item} className="w-full h-24" />
+              <p className="text-xs font-semibold text-slate-900 mt-2 break-words">{item.name}</p>
+              <p className="text-[11px] text-slate-500">{formatBytes(item.size ?? item.quotaBytesUsed)} • {formatDate(item.modifiedTime)}</p>
+              {item.webViewLink && (
+                <a href={item.webViewLink} target="_blank" rel="noreferrer" className="text-[11px] text-indigo-600 hover:underline">Open in Drive</a>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
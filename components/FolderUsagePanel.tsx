@@ -0,0 +1,87 @@
+
+import React, { useState } from 'react';
+import { FolderNode } from '../types.ts';
+import { FolderTree, folderPath } from '../services/folderTree.ts';
+import { formatBytes } from '../utils/format.ts';
+
+interface FolderUsagePanelProps {
+  tree: FolderTree;
+  onAnalyzeFolder: (folder: FolderNode) => void;
+}
+
+const FolderUsagePanel: React.FC<FolderUsagePanelProps> = ({ tree, onAnalyzeFolder }) => {
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const current = currentId ? tree.byId.get(currentId) : undefined;
+  const rows = current ? current.children : tree.roots;
+  const path = current ? folderPath(tree, current.id) : [];
+  const scopeBytes = current ? current.totalBytes : tree.roots.reduce((sum, r) => sum + r.totalBytes, 0);
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-100 shadow-sm p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center flex-wrap gap-2 text-sm font-bold">
+          <button onClick={() => setCurrentId(null)} className={current ? 'text-indigo-600 hover:underline' : 'text-slate-900'}>All folders</button>
+          {path.map(node => (
+            <React.Fragment key={node.id}>
+              <span className="text-slate-300">/</span>
+              <button
+                onClick={() => setCurrentId(node.id)}
+                className={node.id === currentId ? 'text-slate-900' : 'text-indigo-600 hover:underline'}
+              >
+                {node.name}
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+        {current && (
+          <button
+            onClick={() => onAnalyzeFolder(current)}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-full text-xs font-black uppercase tracking-widest shadow-lg transition-all"
+          >
+            Analyze This Folder ({current.totalFiles})
+          </button>
+        )}
+      </div>
+
+      {current && current.fileIds.length > 0 && (
+        <p className="text-xs text-slate-500 mb-4">
+          {current.fileIds.length} files directly in this folder • {formatBytes(current.directBytes)}
+        </p>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="py-12 text-center text-slate-400 text-sm">No subfolders.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] text-left">
+              <th className="pb-3">Folder</th>
+              <th className="pb-3 text-right">Files</th>
+              <th className="pb-3 text-right">Size</th>
+              <th className="pb-3 pl-6 w-1/3">Share</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {rows.map(node => {
+              const share = scopeBytes > 0 ? (node.totalBytes / scopeBytes) * 100 : 0;
+              return (
+                <tr key={node.id} onClick={() => setCurrentId(node.id)} className="cursor-pointer hover:bg-slate-50">
+                  <td className="py-3 font-semibold text-slate-900 truncate max-w-xs" title={node.name}>📁 {node.name}</td>
+                  <td className="py-3 text-right text-slate-500">{node.totalFiles.toLocaleString()}</td>
+                  <td className="py-3 text-right font-bold text-slate-700">{formatBytes(node.totalBytes)}</td>
+                  <td className="py-3 pl-6">
+                    <div className="h-2 bg-indigo-50 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-600" style={{ width: `${share}%` }}></div>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default FolderUsagePanel;
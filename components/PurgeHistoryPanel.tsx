@@ -0,0 +1,111 @@
+
+import React, { useState } from 'react';
+import { PurgeRun, PurgeLogEntry } from '../types.ts';
+import { formatBytes } from '../utils/format.ts';
+
+interface PurgeHistoryPanelProps {
+  runs: PurgeRun[];
+  isRestoring: boolean;
+  onRestore: (fileIds: string[]) => void;
+  onClose: () => void;
+}
+
+const PurgeHistoryPanel: React.FC<PurgeHistoryPanelProps> = ({ runs, isRestoring, onRestore, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelected(next);
+  };
+
+  const restorable = (entries: PurgeLogEntry[]) => entries.filter(e => !e.restoredAt).map(e => e.fileId);
+
+  const restore = (ids: string[]) => {
+    if (ids.length === 0) return;
+    onRestore(ids);
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 mb-12">
+        <div>
+          <h3 className="text-4xl font-black tracking-tight text-slate-900 mb-2">Purge History</h3>
+          <p className="text-slate-500 font-medium max-w-2xl">Everything DrivePurge trashed or archived. Restoring takes files out of the Trash, or moves archived files back to their folders.</p>
+        </div>
+        <div className="flex gap-4">
+          <button onClick={onClose} className="px-8 py-4 font-bold text-slate-400 hover:text-slate-600">Back</button>
+          <button
+            onClick={() => restore(Array.from(selected) as string[])}
+            disabled={selected.size === 0 || isRestoring}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-4 rounded-full font-bold shadow-xl transition-all active:scale-95 disabled:opacity-50"
+          >
+            Restore Selected ({selected.size})
+          </button>
+        </div>
+      </div>
+
+      {runs.length === 0 && (
+        <p className="py-24 text-center text-slate-400 font-medium">No purge runs recorded yet.</p>
+      )}
+
+      <div className="space-y-8">
+        {runs.map(run => {
+          const pending = restorable(run.entries);
+          return (
+            <div key={run.runId} className="p-6 bg-white rounded-3xl border border-slate-100 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] block">{new Date(run.startedAt).toLocaleString()}</span>
+                  <span className="text-sm font-bold text-slate-700">{run.entries.length} files • {pending.length} not restored</span>
+                </div>
+                <button
+                  onClick={() => restore(pending)}
+                  disabled={pending.length === 0 || isRestoring}
+                  className="text-xs font-black text-indigo-600 hover:underline disabled:opacity-40 disabled:no-underline"
+                >
+                  Restore Run →
+                </button>
+              </div>
+              <ul className="divide-y divide-slate-50">
+                {run.entries.map(entry => (
+                  <li key={`${run.runId}-${entry.fileId}`} className="flex items-center gap-4 py-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(entry.fileId)}
+                      disabled={Boolean(entry.restoredAt)}
+                      onChange={() => toggle(entry.fileId)}
+                      className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span className="flex-1 text-sm font-semibold text-slate-900 truncate" title={entry.name}>{entry.name}</span>
+                    {entry.action === 'archive' && (
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Archived</span>
+                    )}
+                    {entry.action === 'download' && (
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">In ZIP</span>
+                    )}
+                    <span className="text-xs text-slate-500">{formatBytes(entry.size)}</span>
+                    {entry.restoredAt ? (
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-emerald-600">Restored</span>
+                    ) : (
+                      <button
+                        onClick={() => restore([entry.fileId])}
+                        disabled={isRestoring}
+                        className="text-[10px] font-bold uppercase tracking-wider text-indigo-600 hover:underline disabled:opacity-40"
+                      >
+                        Restore
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PurgeHistoryPanel;
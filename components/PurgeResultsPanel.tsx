@@ -0,0 +1,119 @@
+
+import React from 'react';
+import { DriveFile, PurgeItemResult, PurgeOutcome, PurgeAction, PURGE_ACTIONS } from '../types.ts';
+
+interface PurgeResultsPanelProps {
+  results: PurgeItemResult[];
+  files: DriveFile[];
+  // Dry-run results describe what would have been trashed; nothing was changed in Drive.
+  dryRun?: boolean;
+  archiveFolderName: string;
+  onRetryFailed: () => void;
+  onBackToReview: () => void;
+  onOpenHistory: () => void;
+  onNewAudit: () => void;
+}
+
+const FAILED_COLOR = 'text-rose-600 bg-rose-50 border-rose-100';
+const SKIPPED_COLOR = 'text-amber-700 bg-amber-50 border-amber-100';
+const SUCCEEDED_COLOR = 'text-emerald-700 bg-emerald-50 border-emerald-100';
+
+// Results from before per-file actions carry no action and were all trashed.
+const actionOf = (r: PurgeItemResult): PurgeAction => r.action || 'trash';
+
+const PurgeResultsPanel: React.FC<PurgeResultsPanelProps> = ({ results, files, dryRun, archiveFolderName, onRetryFailed, onBackToReview, onOpenHistory, onNewAudit }) => {
+  const nameById = new Map(files.map(f => [f.id, f.name]));
+  const byStatus = (status: PurgeOutcome) => results.filter(r => r.status === status);
+  const failedCount = byStatus('failed').length;
+  const allSucceeded = results.every(r => r.status === 'succeeded');
+  const usedActions = PURGE_ACTIONS.filter(a => results.some(r => actionOf(r) === a));
+
+  const doneLabel = (action: PurgeAction) => {
+    switch (action) {
+      case 'archive': return dryRun ? `Would Be Moved to "${archiveFolderName}"` : `Moved to "${archiveFolderName}"`;
+      case 'download': return dryRun ? 'Would Be Downloaded, Then Trashed' : 'Downloaded to ZIP, Then Trashed';
+      case 'restrict': return dryRun ? 'Sharing Would Be Restricted' : 'Sharing Restricted';
+      default: return dryRun ? 'Would Be Moved to Trash' : 'Moved to Trash';
+    }
+  };
+
+  const sections: { key: string; heading: string; color: string; items: PurgeItemResult[] }[] = [
+    { key: 'failed', heading: 'Failed', color: FAILED_COLOR, items: byStatus('failed') },
+    { key: 'skipped', heading: 'Skipped', color: SKIPPED_COLOR, items: byStatus('skipped') },
+    ...usedActions.map(action => ({
+      key: `succeeded-${action}`,
+      heading: doneLabel(action),
+      color: SUCCEEDED_COLOR,
+      items: byStatus('succeeded').filter(r => actionOf(r) === action),
+    })),
+  ];
+
+  return (
+    <div className="py-16 animate-in zoom-in duration-700">
+      <div className="text-center mb-16">
+        <div className={`w-32 h-32 rounded-full flex items-center justify-center text-6xl mx-auto mb-12 shadow-inner ${allSucceeded ? 'bg-emerald-50 text-emerald-600' : 'bg-amber-50 text-amber-600'}`}>
+          {allSucceeded ? '✨' : '⚠️'}
+        </div>
+        <h2 className="text-5xl font-black text-slate-900 mb-4 tracking-tighter">
+          {dryRun ? 'Dry Run Complete.' : allSucceeded ? 'Mission Accomplished.' : 'Purge Partially Completed.'}
+        </h2>
+        <p className="text-xl text-slate-500">
+          {byStatus('succeeded').length} {dryRun ? 'would be processed' : 'processed'} • {failedCount} failed • {byStatus('skipped').length} skipped
+        </p>
+        {dryRun && <p className="text-sm text-slate-400 mt-2">Nothing was moved, downloaded, trashed or unshared.</p>}
+      </div>
+
+      {usedActions.length > 1 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-4xl mx-auto mb-8">
+          {usedActions.map(action => {
+            const items = results.filter(r => actionOf(r) === action);
+            const count = (status: PurgeOutcome) => items.filter(r => r.status === status).length;
+            return (
+              <div key={action} className="p-5 bg-white rounded-3xl border border-slate-100 shadow-sm">
+                <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] block mb-2">{doneLabel(action)}</span>
+                <span className="text-2xl font-black text-slate-900">{count('succeeded')}</span>
+                <span className="text-sm text-slate-400"> / {items.length}</span>
+                <p className="text-xs text-slate-500 mt-1">{count('failed')} failed • {count('skipped')} skipped</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-8 max-w-4xl mx-auto">
+        {sections.map(({ key, heading, color, items }) => {
+          if (items.length === 0) return null;
+          return (
+            <div key={key} className={`p-6 rounded-3xl border ${color}`}>
+              <h5 className="font-black uppercase text-xs tracking-widest mb-4">{heading} ({items.length})</h5>
+              <ul className="space-y-2">
+                {items.map(r => (
+                  <li key={r.id} className="flex items-baseline justify-between gap-4 text-sm">
+                    <span className="font-semibold truncate" title={nameById.get(r.id) || r.id}>{nameById.get(r.id) || r.id}</span>
+                    {r.error && <span className="text-xs opacity-80 truncate max-w-[50%]" title={r.error}>{r.error}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-center gap-4 mt-16">
+        {failedCount > 0 && (
+          <button onClick={onRetryFailed} className="bg-indigo-600 text-white px-12 py-6 rounded-3xl font-black text-xl hover:bg-indigo-700 transition-all shadow-2xl">
+            Retry Failed ({failedCount})
+          </button>
+        )}
+        {dryRun ? (
+          <button onClick={onBackToReview} className="bg-white border-2 border-slate-100 text-slate-400 px-12 py-6 rounded-3xl font-black text-xl hover:border-indigo-100 hover:text-indigo-600 transition-all">Back to Review</button>
+        ) : (
+          <button onClick={onOpenHistory} className="bg-white border-2 border-slate-100 text-slate-400 px-12 py-6 rounded-3xl font-black text-xl hover:border-indigo-100 hover:text-indigo-600 transition-all">Undo in History</button>
+        )}
+        <button onClick={onNewAudit} className="bg-slate-900 text-white px-12 py-6 rounded-3xl font-black text-xl hover:bg-indigo-600 transition-all shadow-2xl">Run New Audit</button>
+      </div>
+    </div>
+  );
+};
+
+export default PurgeResultsPanel;
@@ -0,0 +1,113 @@
+
+import React from 'react';
+import { CleanupCategory, ReviewFilters, ReviewSort, PurgeAction, REVIEW_CATEGORIES, PURGE_ACTIONS } from '../types.ts';
+import { PURGE_ACTION_LABELS } from '../services/archiveService.ts';
+
+interface ReviewToolbarProps {
+  filters: ReviewFilters;
+  onChange: (filters: ReviewFilters) => void;
+  mimeTypes: string[];
+  visibleCount: number;
+  totalCount: number;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onSelectVisible: () => void;
+  onClearVisible: () => void;
+  onSelectByConfidence: () => void;
+  onSetVisibleAction: (action: PurgeAction) => void;
+}
+
+const SORT_LABELS: Record<ReviewSort, string> = {
+  confidence: 'Confidence',
+  size: 'Size',
+  date: 'Last modified',
+};
+
+const ReviewToolbar: React.FC<ReviewToolbarProps> = ({
+  filters, onChange, mimeTypes, visibleCount, totalCount, threshold,
+  onThresholdChange, onSelectVisible, onClearVisible, onSelectByConfidence, onSetVisibleAction
+}) => {
+  const inputClass = "bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-xs focus:border-indigo-600 outline-none transition-all";
+  const labelClass = "block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] mb-1";
+  const linkClass = "text-[11px] font-black uppercase tracking-[0.2em] text-slate-400 hover:text-indigo-600";
+
+  return (
+    <div className="p-5 mb-8 bg-white rounded-3xl border border-slate-100 shadow-sm space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="col-span-2 md:col-span-1">
+          <label className={labelClass}>Search</label>
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => onChange({ ...filters, search: e.target.value })}
+            className={`${inputClass} w-full`}
+            placeholder="File name"
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Category</label>
+          <select
+            value={filters.category}
+            onChange={(e) => onChange({ ...filters, category: e.target.value as CleanupCategory | 'all' })}
+            className={`${inputClass} w-full`}
+          >
+            <option value="all">All categories</option>
+            {REVIEW_CATEGORIES.map(c => <option key={c} value={c}>{c.replace('_', ' ')}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Type</label>
+          <select
+            value={filters.mimeType}
+            onChange={(e) => onChange({ ...filters, mimeType: e.target.value })}
+            className={`${inputClass} w-full`}
+          >
+            <option value="">All types</option>
+            {mimeTypes.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Sort by</label>
+          <select
+            value={filters.sortBy}
+            onChange={(e) => onChange({ ...filters, sortBy: e.target.value as ReviewSort })}
+            className={`${inputClass} w-full`}
+          >
+            {(Object.keys(SORT_LABELS) as ReviewSort[]).map(s => <option key={s} value={s}>{SORT_LABELS[s]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <span className="text-xs text-slate-500">Showing {visibleCount} of {totalCount}</span>
+        <button onClick={onSelectVisible} disabled={visibleCount === 0} className={`${linkClass} disabled:opacity-40`}>Select visible</button>
+        <button onClick={onClearVisible} disabled={visibleCount === 0} className={`${linkClass} disabled:opacity-40`}>Clear visible</button>
+        <select
+          value=""
+          onChange={(e) => { if (e.target.value) onSetVisibleAction(e.target.value as PurgeAction); }}
+          disabled={visibleCount === 0}
+          className={`${inputClass} py-1`}
+        >
+          <option value="">Action for visible…</option>
+          {PURGE_ACTIONS.map(a => <option key={a} value={a}>{PURGE_ACTION_LABELS[a]}</option>)}
+        </select>
+        <div className="flex-1"></div>
+        <label className="flex items-center gap-3 text-xs text-slate-500">
+          Confidence ≥ {Math.round(threshold * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(threshold * 100)}
+            onChange={(e) => onThresholdChange(Number(e.target.value) / 100)}
+            className="w-32 accent-indigo-600"
+          />
+        </label>
+        <button onClick={onSelectByConfidence} disabled={visibleCount === 0} className={`${linkClass} disabled:opacity-40`}>Apply to visible</button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewToolbar;
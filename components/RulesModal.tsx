@@ -0,0 +1,189 @@
+
+import React, { useState } from 'react';
+import { CleanupRule, CleanupCategory, RuleConditions, CLEANUP_CATEGORIES } from '../types.ts';
+import { DEFAULT_RULES, createRuleId, describeConditions, exportRules, hasConditions, importRules } from '../services/rulesEngine.ts';
+import { downloadText } from '../utils/download.ts';
+
+interface RulesModalProps {
+  rules: CleanupRule[];
+  onSave: (rules: CleanupRule[]) => void;
+  onClose: () => void;
+}
+
+interface RuleDraft {
+  name: string;
+  mimeType: string;
+  namePattern: string;
+  minSizeMb: string;
+  maxSizeMb: string;
+  olderThanDays: string;
+  newerThanDays: string;
+  folderId: string;
+  category: CleanupCategory;
+  confidence: string;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '', mimeType: '', namePattern: '', minSizeMb: '', maxSizeMb: '',
+  olderThanDays: '', newerThanDays: '', folderId: '', category: 'large', confidence: '0.8'
+};
+
+const MB = 1024 * 1024;
+
+const optionalNumber = (value: string, scale: number = 1): number | undefined => {
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n * scale;
+};
+
+const draftToRule = (draft: RuleDraft): CleanupRule => {
+  const conditions: RuleConditions = {
+    mimeType: draft.mimeType.trim() || undefined,
+    namePattern: draft.namePattern.trim() || undefined,
+    minSizeBytes: optionalNumber(draft.minSizeMb, MB),
+    maxSizeBytes: optionalNumber(draft.maxSizeMb, MB),
+    olderThanDays: optionalNumber(draft.olderThanDays),
+    newerThanDays: optionalNumber(draft.newerThanDays),
+    folderId: draft.folderId.trim() || undefined,
+  };
+  return {
+    id: createRuleId(),
+    name: draft.name.trim(),
+    enabled: true,
+    conditions,
+    category: draft.category,
+    confidence: Math.min(1, Math.max(0, parseFloat(draft.confidence) || 0)),
+  };
+};
+
+const RulesModal: React.FC<RulesModalProps> = ({ rules, onSave, onClose }) => {
+  const [draftRules, setDraftRules] = useState<CleanupRule[]>(rules);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 text-sm focus:border-indigo-600 outline-none transition-all";
+  const labelClass = "block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] mb-1";
+
+  const field = (key: keyof RuleDraft, label: string, placeholder: string = '') => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input
+        type="text"
+        value={draft[key]}
+        onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+        className={inputClass}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  const draftRule = draftToRule(draft);
+  const canAdd = Boolean(draftRule.name) && hasConditions(draftRule.conditions);
+
+  const addRule = () => {
+    if (!canAdd) return;
+    setDraftRules([...draftRules, draftRule]);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setDraftRules(importRules(await file.text()));
+      setImportError(null);
+    } catch (err: unknown) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white rounded-[40px] p-10 shadow-2xl animate-in zoom-in-95 duration-300">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-3xl font-black text-slate-900 tracking-tight">Cleanup Rules</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">&times;</button>
+        </div>
+        <p className="text-slate-500 text-sm mb-8">Rules run locally on every scan before the AI layer. Matches show the rule name as their reason. Changes apply to the next analysis.</p>
+
+        <ul className="space-y-3 mb-8">
+          {draftRules.length === 0 && <li className="text-sm text-slate-400">No rules. Only duplicate detection and the AI layer will flag files.</li>}
+          {draftRules.map(rule => (
+            <li key={rule.id} className="flex items-center gap-4 p-4 bg-slate-50 rounded-2xl">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={() => setDraftRules(draftRules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))}
+                className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-slate-900 truncate">{rule.name}</p>
+                <p className="text-xs text-slate-500 truncate">{describeConditions(rule.conditions)} → {rule.category}, confidence {rule.confidence}</p>
+              </div>
+              <button
+                onClick={() => setDraftRules(draftRules.filter(r => r.id !== rule.id))}
+                className="text-[10px] font-bold uppercase tracking-wider text-rose-500 hover:underline"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="p-6 border-2 border-dashed border-slate-100 rounded-3xl mb-8">
+          <h5 className="font-black text-indigo-600 uppercase text-xs tracking-widest mb-4">New Rule</h5>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="col-span-2 md:col-span-4">{field('name', 'Name', 'Old raw videos')}</div>
+            {field('mimeType', 'MIME type', 'video/*')}
+            {field('namePattern', 'Name pattern', 'Screenshot*')}
+            {field('minSizeMb', 'Larger than (MB)', '500')}
+            {field('maxSizeMb', 'Smaller than (MB)')}
+            {field('olderThanDays', 'Older than (days)', '365')}
+            {field('newerThanDays', 'Newer than (days)')}
+            {field('folderId', 'In folder (ID)')}
+            <div>
+              <label className={labelClass}>Flag as</label>
+              <select
+                value={draft.category}
+                onChange={(e) => setDraft({ ...draft, category: e.target.value as CleanupCategory })}
+                className={inputClass}
+              >
+                {CLEANUP_CATEGORIES.map(c => <option key={c} value={c}>{c.replace('_', ' ')}</option>)}
+              </select>
+            </div>
+            {field('confidence', 'Confidence (0-1)')}
+          </div>
+          <button
+            onClick={addRule}
+            disabled={!canAdd}
+            className="mt-4 text-xs font-black text-indigo-600 hover:underline disabled:opacity-40 disabled:no-underline"
+          >
+            + Add Rule
+          </button>
+          {draft.name.trim() && !hasConditions(draftRule.conditions) && (
+            <p className="mt-2 text-xs text-slate-400">Fill in at least one condition, or the rule would flag every file.</p>
+          )}
+        </div>
+
+        {importError && (
+          <p className="mb-6 p-4 bg-rose-50 rounded-2xl border border-rose-100 text-rose-900 text-sm">{importError}</p>
+        )}
+
+        <div className="flex flex-wrap gap-4 items-center">
+          <button onClick={() => downloadText('drivepurge-rules.json', exportRules(draftRules))} className="text-xs font-black text-slate-400 hover:text-indigo-600">Export JSON</button>
+          <label className="text-xs font-black text-slate-400 hover:text-indigo-600 cursor-pointer">
+            Import JSON
+            <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </label>
+          <button onClick={() => setDraftRules(DEFAULT_RULES)} className="text-xs font-black text-slate-400 hover:text-indigo-600">Reset to Defaults</button>
+          <div className="flex-1"></div>
+          <button onClick={onClose} className="px-8 py-4 font-bold text-slate-400">Cancel</button>
+          <button onClick={() => onSave(draftRules)} className="bg-indigo-600 text-white px-8 py-4 rounded-2xl font-black shadow-lg hover:bg-indigo-700 transition-all">Save Rules</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RulesModal;
@@ -0,0 +1,104 @@
+
+import React from 'react';
+import { DriveCorpus, ScanFilters, SharedDrive } from '../types.ts';
+
+interface ScanScopePanelProps {
+  filters: ScanFilters;
+  onChange: (filters: ScanFilters) => void;
+  // Shared drives of the signed-in account; empty until someone connects.
+  drives: SharedDrive[];
+}
+
+const ScanScopePanel: React.FC<ScanScopePanelProps> = ({ filters, onChange, drives }) => {
+  const update = (patch: Partial<ScanFilters>) => onChange({ ...filters, ...patch });
+  const driveIds = filters.driveIds || [];
+  const toggleDrive = (id: string) =>
+    update({ driveIds: driveIds.includes(id) ? driveIds.filter(d => d !== id) : [...driveIds, id] });
+  const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-2xl px-4 py-3 text-sm focus:border-indigo-600 outline-none transition-all";
+  const labelClass = "block text-[10px] font-black uppercase text-slate-400 tracking-[0.2em] mb-2";
+
+  return (
+    <details className="mt-10 max-w-xl group">
+      <summary className="cursor-pointer text-xs font-black uppercase tracking-[0.2em] text-slate-400 hover:text-indigo-600 transition-colors">
+        Scan scope (optional)
+      </summary>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-6">
+        <div className="sm:col-span-2">
+          <label className={labelClass}>Drives</label>
+          <select
+            value={filters.corpus || 'user'}
+            onChange={(e) => update({ corpus: e.target.value as DriveCorpus })}
+            className={inputClass}
+          >
+            <option value="user">My Drive</option>
+            <option value="drives">Selected shared drives</option>
+            <option value="allDrives">Everything (My Drive and all shared drives)</option>
+          </select>
+          {filters.corpus === 'drives' && (
+            drives.length === 0 ? (
+              <p className="text-xs text-slate-400 mt-3">Connect an account to list its shared drives.</p>
+            ) : (
+              <>
+                {driveIds.length === 0 && <p className="text-xs font-bold text-rose-600 mt-3">Pick at least one shared drive to scan.</p>}
+                <div className="flex flex-wrap gap-3 mt-3">
+                  {drives.map(d => (
+                    <label key={d.id} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={driveIds.includes(d.id)}
+                        onChange={() => toggleDrive(d.id)}
+                        className="w-4 h-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      {d.name}
+                    </label>
+                  ))}
+                </div>
+              </>
+            )
+          )}
+        </div>
+        <div className="sm:col-span-2">
+          <label className={labelClass}>Folder ID</label>
+          <input
+            type="text"
+            value={filters.folderId || ''}
+            onChange={(e) => update({ folderId: e.target.value })}
+            className={`${inputClass} font-mono`}
+            placeholder="Entire Drive"
+          />
+          <p className="text-[11px] text-slate-400 mt-2">Includes every folder below it.</p>
+        </div>
+        <div className="sm:col-span-2">
+          <label className={labelClass}>MIME type</label>
+          <input
+            type="text"
+            value={filters.mimeType || ''}
+            onChange={(e) => update({ mimeType: e.target.value })}
+            className={`${inputClass} font-mono`}
+            placeholder="video/* or application/pdf"
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Modified after</label>
+          <input
+            type="date"
+            value={filters.modifiedAfter || ''}
+            onChange={(e) => update({ modifiedAfter: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Modified on or before</label>
+          <input
+            type="date"
+            value={filters.modifiedBefore || ''}
+            onChange={(e) => update({ modifiedBefore: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default ScanScopePanel;
@@ -0,0 +1,70 @@
+
+import React from 'react';
+import { DriveFile, StorageQuota } from '../types.ts';
+import { usageByType, projectUsage } from '../services/storageQuota.ts';
+import { formatBytes } from '../utils/format.ts';
+
+interface StorageDashboardProps {
+  quota: StorageQuota | null;
+  files: DriveFile[];
+  selectedBytes: number;
+}
+
+const StorageDashboard: React.FC<StorageDashboardProps> = ({ quota, files, selectedBytes }) => {
+  const types = usageByType(files);
+  const scannedBytes = types.reduce((sum, t) => sum + t.bytes, 0);
+  const projected = quota ? projectUsage(quota, selectedBytes) : null;
+  // Unlimited accounts have no limit, so the bar is drawn against current usage instead.
+  const scale = quota ? (quota.limit || quota.usage || 1) : (scannedBytes || 1);
+  const pct = (bytes: number) => `${Math.min(100, (bytes / scale) * 100)}%`;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+      <div className="lg:col-span-2 p-6 bg-white rounded-3xl border border-slate-100 shadow-sm">
+        <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] block mb-3">Storage Quota</span>
+        {quota ? (
+          <>
+            <div className="flex items-baseline justify-between mb-3">
+              <span className="text-2xl font-black text-slate-900">{formatBytes(quota.usage)}</span>
+              <span className="text-sm text-slate-500">{quota.limit ? `of ${formatBytes(quota.limit)}` : 'Unlimited plan'}</span>
+            </div>
+            <div className="relative h-3 bg-slate-100 rounded-full overflow-hidden">
+              <div className="absolute inset-y-0 left-0 bg-rose-300" style={{ width: pct(quota.usage) }}></div>
+              <div className="absolute inset-y-0 left-0 bg-indigo-600" style={{ width: pct(projected!) }}></div>
+            </div>
+            <p className="text-xs text-slate-500 mt-3">
+              After this purge: <strong className="text-indigo-600">{formatBytes(projected!)}</strong>
+              {quota.limit ? ` (${Math.round((projected! / quota.limit) * 100)}% of quota)` : ''} • {formatBytes(selectedBytes)} reclaimed
+            </p>
+            <p className="text-[11px] text-slate-400 mt-1">
+              Trashed files still count until the Trash is emptied. Trash currently holds {formatBytes(quota.usageInDriveTrash)}.
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-slate-500">
+            Quota unavailable. Scanned files use {formatBytes(scannedBytes)}; the selection frees {formatBytes(selectedBytes)}.
+          </p>
+        )}
+      </div>
+
+      <div className="p-6 bg-white rounded-3xl border border-slate-100 shadow-sm">
+        <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] block mb-3">Usage by Type</span>
+        <ul className="space-y-2">
+          {types.slice(0, 6).map(t => (
+            <li key={t.label} className="text-xs">
+              <div className="flex justify-between mb-1">
+                <span className="font-semibold text-slate-700">{t.label} <span className="text-slate-400">({t.count})</span></span>
+                <span className="text-slate-500">{formatBytes(t.bytes)}</span>
+              </div>
+              <div className="h-1.5 bg-indigo-50 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-600" style={{ width: `${scannedBytes > 0 ? (t.bytes / scannedBytes) * 100 : 0}%` }}></div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default StorageDashboard;
@@ -0,0 +1,138 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  // Used for rows that have not been on screen yet.
+  estimatedRowHeight?: number;
+  gap?: number;
+  // Rows rendered beyond each edge of the viewport, so fast scrolling does not show blanks.
+  overscan?: number;
+}
+
+// Same breakpoints as the grid-cols-1 md:grid-cols-2 lg:grid-cols-3 grids elsewhere.
+const columnsFor = (width: number) => width >= 1024 ? 3 : width >= 768 ? 2 : 1;
+
+interface MeasuredRowProps {
+  offset: number;
+  columns: number;
+  gap: number;
+  onHeight: (height: number) => void;
+  children: React.ReactNode;
+}
+
+const MeasuredRow: React.FC<MeasuredRowProps> = ({ offset, columns, gap, onHeight, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const onHeightRef = useRef(onHeight);
+  onHeightRef.current = onHeight;
+
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => onHeightRef.current(el.offsetHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <div
+      ref={ref}
+      className="absolute inset-x-0 top-0 grid"
+      style={{ transform: `translateY(${offset}px)`, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, gap }}
+    >
+      {children}
+    </div>
+  );
+};
+
+// A card grid that scrolls with the page but only mounts the rows near the viewport.
+// Row heights are measured as rows appear; unmeasured rows are assumed to be `estimatedRowHeight`.
+const VirtualGrid = <T,>({ items, getKey, renderItem, estimatedRowHeight = 320, gap = 24, overscan = 3 }: VirtualGridProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(() => columnsFor(window.innerWidth));
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight });
+  // Keyed by column count and the row's first item, so reordering or filtering re-measures only what changed.
+  const heightsRef = useRef(new Map<string, number>());
+  const [heightsVersion, setHeightsVersion] = useState(0);
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const rect = containerRef.current?.getBoundingClientRect();
+      setColumns(columnsFor(window.innerWidth));
+      setViewport(prev => {
+        const top = rect ? -rect.top : 0;
+        return prev.top === top && prev.height === window.innerHeight ? prev : { top, height: window.innerHeight };
+      });
+    };
+    const schedule = () => { if (!frame) frame = requestAnimationFrame(update); };
+    update();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    // The grid also moves without any scroll or resize: panels above it open and close, and the
+    // page reflows around it. Watching the container and the page body catches those too.
+    const observer = new ResizeObserver(schedule);
+    if (containerRef.current) observer.observe(containerRef.current);
+    observer.observe(document.body);
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      observer.disconnect();
+    };
+  }, []);
+
+  const rowCount = Math.ceil(items.length / columns);
+  const rowKey = (row: number) => `${columns}:${getKey(items[row * columns])}`;
+
+  // offsets[i] is where row i starts; offsets[rowCount] is the total height plus one trailing gap.
+  const offsets = useMemo(() => {
+    const result = new Float64Array(rowCount + 1);
+    for (let row = 0; row < rowCount; row++) {
+      result[row + 1] = result[row] + (heightsRef.current.get(rowKey(row)) ?? estimatedRowHeight) + gap;
+    }
+    return result;
+  }, [items, columns, heightsVersion, estimatedRowHeight, gap]);
+
+  // Binary search for the first row that ends below the top of the viewport.
+  const rowAt = (y: number) => {
+    let lo = 0;
+    let hi = rowCount;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (offsets[mid + 1] <= y) lo = mid + 1; else hi = mid;
+    }
+    return lo;
+  };
+
+  const first = Math.max(0, rowAt(viewport.top) - overscan);
+  const last = Math.min(rowCount, rowAt(viewport.top + viewport.height) + 1 + overscan);
+
+  const setHeight = (key: string, height: number) => {
+    if (heightsRef.current.get(key) === height) return;
+    heightsRef.current.set(key, height);
+    setHeightsVersion(v => v + 1);
+  };
+
+  const rows: React.ReactNode[] = [];
+  for (let row = first; row < last; row++) {
+    const key = rowKey(row);
+    rows.push(
+      <MeasuredRow key={key} offset={offsets[row]} columns={columns} gap={gap} onHeight={height => setHeight(key, height)}>
+        {items.slice(row * columns, (row + 1) * columns).map(item => (
+          <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>
+        ))}
+      </MeasuredRow>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className="relative" style={{ height: Math.max(0, offsets[rowCount] - gap) }}>
+      {rows}
+    </div>
+  );
+};
+
+export default VirtualGrid;
@@ -0,0 +1,34 @@
+
+import { FOLDER_MIME_TYPE } from "../services/folderTree.ts";
+import { FakeDriveSeed } from "../services/fakeDriveBackend.ts";
+
+// Sample Drive used by "Launch Demo Audit": an exact duplicate pair, a pair of versioned reports,
+// two large stale files, a shared spreadsheet that the protection rules must leave alone, and one shared drive.
+// The spreadsheet is also public by link and the newest report is shared with an outside editor.
+export const DEMO_DRIVE: FakeDriveSeed = {
+  rootFolderId: 'demo-root',
+  items: [
+    { id: 'demo-folder-proposals', name: 'Proposals', mimeType: FOLDER_MIME_TYPE, modifiedTime: '2022-03-12T10:00:00Z', parents: ['demo-root'] },
+    { id: 'demo-folder-archive', name: 'Archive', mimeType: FOLDER_MIME_TYPE, modifiedTime: '2023-11-20T15:30:00Z', parents: ['demo-root'] },
+    { id: 'demo-folder-backups', name: 'Backups', mimeType: FOLDER_MIME_TYPE, modifiedTime: '2021-02-15T09:00:00Z', parents: ['demo-folder-archive'] },
+    { id: 'demo-file-1', name: 'Draft_Proposal_v1_FINAL.pdf', size: '12500000', mimeType: 'application/pdf', modifiedTime: '2022-03-12T10:00:00Z', parents: ['demo-folder-proposals'], ownedByMe: true },
+    { id: 'demo-file-2', name: 'Draft_Proposal_v1_FINAL.pdf', size: '12500000', mimeType: 'application/pdf', modifiedTime: '2022-03-12T10:00:00Z', parents: ['demo-root'], ownedByMe: true },
+    { id: 'demo-file-8', name: 'Q3_Sales_Report_v2.docx', size: '2300000', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', modifiedTime: '2024-10-02T14:00:00Z', parents: ['demo-folder-proposals'], ownedByMe: true },
+    { id: 'demo-file-9', name: 'Copy of Q3 Sales Report FINAL.docx', size: '2450000', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', modifiedTime: '2024-10-09T16:45:00Z', parents: ['demo-folder-proposals'], ownedByMe: true, shared: true, permissions: [
+      { id: 'demo-perm-owner', type: 'user', role: 'owner', emailAddress: 'demo@example.com' },
+      { id: 'demo-perm-colleague', type: 'user', role: 'reader', emailAddress: 'sam@example.com' },
+      { id: 'demo-perm-partner', type: 'user', role: 'writer', emailAddress: 'partner@acme-consulting.com' },
+    ] },
+    { id: 'demo-file-3', name: 'Raw_Video_Archive_2023.mp4', size: '4200000000', mimeType: 'video/mp4', modifiedTime: '2023-11-20T15:30:00Z', parents: ['demo-folder-archive'], ownedByMe: true },
+    { id: 'demo-file-4', name: 'Legacy_Database_Backup.sql', size: '1850000000', mimeType: 'text/plain', modifiedTime: '2021-02-15T09:00:00Z', parents: ['demo-folder-backups'], ownedByMe: true },
+    { id: 'demo-file-5', name: 'Team_Budget_2021.xlsx', size: '840000', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', modifiedTime: '2021-06-01T08:00:00Z', parents: ['demo-folder-archive'], ownedByMe: true, shared: true, permissions: [
+      { id: 'demo-perm-owner', type: 'user', role: 'owner', emailAddress: 'demo@example.com' },
+      { id: 'anyoneWithLink', type: 'anyone', role: 'reader', allowFileDiscovery: false },
+    ] },
+    { id: 'demo-file-6', name: 'Launch_Campaign_Footage.mov', size: '2600000000', mimeType: 'video/quicktime', modifiedTime: '2020-09-14T12:00:00Z', parents: ['demo-drive-marketing'], driveId: 'demo-drive-marketing', capabilities: { canTrash: true } },
+    { id: 'demo-file-7', name: 'Brand_Guidelines.pdf', size: '48000000', mimeType: 'application/pdf', modifiedTime: '2024-01-08T09:30:00Z', parents: ['demo-drive-marketing'], driveId: 'demo-drive-marketing', capabilities: { canTrash: false } },
+  ],
+  drives: [{ id: 'demo-drive-marketing', name: 'Marketing' }],
+  user: { displayName: 'Demo User', emailAddress: 'demo@example.com' },
+  quota: { limit: 16106127360, usage: 13421772800, usageInDrive: 12884901888, usageInDriveTrash: 268435456 },
+};
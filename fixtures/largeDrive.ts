@@ -0,0 +1,95 @@
+import { DriveFile } from "../types.ts";
+import { FOLDER_MIME_TYPE } from "../services/folderTree.ts";
+import { FakeDriveSeed } from "../services/fakeDriveBackend.ts";
+
+export interface LargeDriveOptions {
+  fileCount?: number;
+  folderCount?: number;
+  // Same seed, same drive: every name, size, date and permission is derived from it.
+  seed?: number;
+}
+
+const MIME_TYPES: { mimeType: string; extension: string; minBytes: number; maxBytes: number }[] = [
+  { mimeType: 'application/pdf', extension: 'pdf', minBytes: 50_000, maxBytes: 40_000_000 },
+  { mimeType: 'image/jpeg', extension: 'jpg', minBytes: 200_000, maxBytes: 12_000_000 },
+  { mimeType: 'video/mp4', extension: 'mp4', minBytes: 20_000_000, maxBytes: 4_000_000_000 },
+  { mimeType: 'application/zip', extension: 'zip', minBytes: 1_000_000, maxBytes: 2_000_000_000 },
+  { mimeType: 'text/plain', extension: 'txt', minBytes: 1_000, maxBytes: 500_000 },
+  { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: 'docx', minBytes: 20_000, maxBytes: 8_000_000 },
+  { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx', minBytes: 10_000, maxBytes: 6_000_000 },
+];
+
+const WORDS = ['Budget', 'Report', 'Invoice', 'Photo', 'Backup', 'Notes', 'Proposal', 'Export', 'Draft', 'Scan', 'Meeting', 'Roadmap'];
+const VERSION_SUFFIXES = ['', '', '', '_v2', '_final', ' (1)', '_old'];
+
+// Small, fast and reproducible (mulberry32); Math.random would make benchmark runs incomparable.
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// A My Drive the size of a heavy user's for benchmarking the review screen. Roughly one file in ten is an
+// exact copy of an earlier one, dates span six years before 2026-01-01, and a few percent are shared
+// by link or with an outside account.
+export const generateLargeDrive = ({ fileCount = 50_000, folderCount = 500, seed = 1 }: LargeDriveOptions = {}): FakeDriveSeed => {
+  const random = seededRandom(seed);
+  const pick = <T,>(list: T[]): T => list[Math.floor(random() * list.length)];
+  const end = Date.UTC(2026, 0, 1);
+  const span = 6 * 365 * 24 * 60 * 60 * 1000;
+
+  const folders: DriveFile[] = [];
+  for (let i = 0; i < folderCount; i++) {
+    // Each folder hangs off the root or an earlier folder, giving a tree a few levels deep.
+    const parent = i < 10 ? 'large-root' : folders[Math.floor(random() * i)].id;
+    folders.push({
+      id: `large-folder-${i}`,
+      name: `${pick(WORDS)} ${i}`,
+      mimeType: FOLDER_MIME_TYPE,
+      modifiedTime: new Date(end - random() * span).toISOString(),
+      parents: [parent],
+    });
+  }
+
+  const files: DriveFile[] = [];
+  for (let i = 0; i < fileCount; i++) {
+    const parents = [pick(folders).id];
+    const modifiedTime = new Date(end - random() * span).toISOString();
+    if (files.length > 0 && random() < 0.1) {
+      const original = pick(files);
+      files.push({ ...original, id: `large-file-${i}`, parents, modifiedTime, permissions: undefined, shared: false });
+      continue;
+    }
+    const type = pick(MIME_TYPES);
+    // Sizes are spread logarithmically, so most files are small and a few are huge.
+    const size = Math.round(type.minBytes * Math.pow(type.maxBytes / type.minBytes, random()));
+    const file: DriveFile = {
+      id: `large-file-${i}`,
+      name: `${pick(WORDS)}_${2019 + Math.floor(random() * 7)}_${i % 997}${pick(VERSION_SUFFIXES)}.${type.extension}`,
+      mimeType: type.mimeType,
+      size: String(size),
+      md5Checksum: Math.floor(random() * 0xffffffff).toString(16).padStart(8, '0') + i.toString(16),
+      modifiedTime,
+      parents,
+      ownedByMe: true,
+    };
+    const exposure = random();
+    if (exposure < 0.02) {
+      file.shared = true;
+      file.permissions = [{ id: 'anyoneWithLink', type: 'anyone', role: 'reader', allowFileDiscovery: false }];
+    } else if (exposure < 0.05) {
+      file.shared = true;
+      file.permissions = [{ id: `large-perm-${i}`, type: 'user', role: random() < 0.3 ? 'writer' : 'reader', emailAddress: `guest${i % 50}@partner.example.org` }];
+    }
+    files.push(file);
+  }
+
+  const usage = files.reduce((sum, f) => sum + Number(f.size), 0);
+  return {
+    rootFolderId: 'large-root',
+    items: [...folders, ...files],
+    user: { displayName: 'Benchmark User', emailAddress: 'bench@example.com' },
+    quota: { limit: 2 * usage, usage, usageInDrive: usage, usageInDriveTrash: 0 },
+  };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { AgentContext, matchFiles, runAgentTool } from "./agentTools.ts";
+import { buildFolderTree, FOLDER_MIME_TYPE } from "./folderTree.ts";
+import { CleanupCandidate, DriveFile } from "../types.ts";
+
+const now = new Date('2024-06-01T00:00:00Z');
+const file = (id: string, name: string, modifiedTime: string, parents = ['root']): DriveFile =>
+  ({ id, name, mimeType: name.endsWith('.mp4') ? 'video/mp4' : 'application/pdf', modifiedTime, size: '1048576', parents });
+const folders: DriveFile[] = [
+  { id: 'taxes', name: 'Taxes', mimeType: FOLDER_MIME_TYPE, modifiedTime: '2020-01-01T00:00:00Z', parents: ['root'] },
+  { id: 'taxes-2019', name: '2019', mimeType: FOLDER_MIME_TYPE, modifiedTime: '2020-01-01T00:00:00Z', parents: ['taxes'] },
+];
+const files = [
+  file('return', 'Return.pdf', '2020-04-01T00:00:00Z', ['taxes-2019']),
+  file('clip', 'Clip.mp4', '2024-05-30T00:00:00Z'),
+  file('old-clip', 'Old clip.mp4', '2019-05-30T00:00:00Z'),
+  file('locked', 'Passport.pdf', '2018-01-01T00:00:00Z'),
+];
+const candidates: CleanupCandidate[] = [{ id: 'old-clip', category: 'old', reason: 'Untouched for years', confidence: 0.8 }];
+
+const context = (selected: string[] = []): AgentContext => ({
+  files,
+  filesById: new Map(files.map(f => [f.id, f])),
+  candidatesById: new Map(candidates.map(c => [c.id, c])),
+  selectedIds: new Set(selected),
+  folderTree: buildFolderTree([...folders, ...files], 'root'),
+  lockedReason: (f) => f.id === 'locked' ? 'Protected' : null,
+  now,
+});
+
+describe('matchFiles', () => {
+  it('matches folders anywhere above a file, ages and candidates', () => {
+    const ids = (filter: Parameters<typeof matchFiles>[1]) => matchFiles(context(), filter).map(f => f.id);
+
+    expect(ids({ folderName: 'taxes' })).toEqual(['return']);
+    expect(ids({ mimeType: 'video/', olderThanDays: 365 })).toEqual(['old-clip']);
+    expect(ids({ onlyCandidates: true })).toEqual(['old-clip']);
+  });
+});
+
+describe('runAgentTool', () => {
+  it('proposes a selection without touching locked or already selected files', () => {
+    const { response, proposal } = runAgentTool('selectByFilter', { olderThanDays: 365 }, context(['return']), 'p1');
+
+    expect(proposal).toMatchObject({ id: 'p1', select: ['old-clip'], deselect: [], skipped: 1, status: 'pending' });
+    expect(proposal!.newCandidates).toEqual([]);
+    expect(response).toMatchObject({ wouldSelect: 1, skippedLocked: 1, alreadySelected: 1 });
+  });
+
+  it('flags files that were not candidates yet', () => {
+    const { proposal } = runAgentTool('selectByFilter', { ids: ['clip'] }, context(), 'p2');
+
+    expect(proposal!.newCandidates.map(c => c.id)).toEqual(['clip']);
+  });
+
+  it('refuses to select without a criterion', () => {
+    const { response, proposal } = runAgentTool('selectByFilter', { onlyCandidates: true, flagAs: 'old' }, context(), 'p5');
+
+    expect(response.error).toContain('needs at least one criterion');
+    expect(proposal).toBeUndefined();
+  });
+
+  it('only deselects files that are selected', () => {
+    const { proposal } = runAgentTool('deselect', { mimeType: 'video/' }, context(['old-clip', 'return']), 'p3');
+
+    expect(proposal!.deselect).toEqual(['old-clip']);
+  });
+
+  it('answers unknown files and tools with an error', () => {
+    expect(runAgentTool('explainFile', { id: 'missing' }, context(), 'p4').response.error).toContain('No scanned file');
+    expect(runAgentTool('deleteEverything', {}, context(), 'p5').response.error).toContain('Unknown tool');
+  });
+});
@@ -0,0 +1,246 @@
+
+import { DriveFile, CleanupCandidate, CleanupCategory, AgentProposal, AgentToolName, CLEANUP_CATEGORIES } from "../types.ts";
+import { FolderTree, folderPath } from "./folderTree.ts";
+import { storageBytes } from "./storageQuota.ts";
+import { formatBytes } from "../utils/format.ts";
+import { NameRedactor } from "./privacyService.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+// Confidence given to files the user explicitly asked to flag in chat.
+const CHAT_FLAG_CONFIDENCE = 0.9;
+
+// Read-only view of the review screen the tools run against.
+export interface AgentContext {
+  files: DriveFile[];
+  filesById: Map<string, DriveFile>;
+  candidatesById: Map<string, CleanupCandidate>;
+  selectedIds: ReadonlySet<string>;
+  folderTree: FolderTree | null;
+  // Why a file can never be selected (protection rules, kept duplicate copy), or null.
+  lockedReason: (file: DriveFile) => string | null;
+  // Set in privacy mode: responses carry name tokens instead of file and folder names, and tokens
+  // in the model's arguments are resolved back to names before they are used.
+  redactor?: NameRedactor | null;
+  now?: Date;
+}
+
+export interface FileFilter {
+  ids?: string[];
+  nameContains?: string;
+  mimeType?: string;
+  // Matches the file's folder or any folder above it, case-insensitively.
+  folderName?: string;
+  olderThanDays?: number;
+  newerThanDays?: number;
+  minSizeBytes?: number;
+  category?: CleanupCategory;
+  onlyCandidates?: boolean;
+  onlySelected?: boolean;
+}
+
+export interface AgentToolResult {
+  // Sent back to the model as the function response.
+  response: Record<string, unknown>;
+  proposal?: AgentProposal;
+}
+
+const folderNames = (ctx: AgentContext, file: DriveFile): string[] => {
+  const parentId = file.parents?.[0];
+  if (!ctx.folderTree || !parentId) return [];
+  return folderPath(ctx.folderTree, parentId).map(node => node.name);
+};
+
+export const matchFiles = (ctx: AgentContext, filter: FileFilter): DriveFile[] => {
+  const now = (ctx.now || new Date()).getTime();
+  const ids = filter.ids ? new Set(filter.ids) : null;
+  const name = filter.nameContains?.toLowerCase();
+  const folder = filter.folderName?.toLowerCase();
+  return ctx.files.filter(file => {
+    const candidate = ctx.candidatesById.get(file.id);
+    const age = now - new Date(file.modifiedTime).getTime();
+    if (ids && !ids.has(file.id)) return false;
+    if (name && !file.name.toLowerCase().includes(name)) return false;
+    if (filter.mimeType && !file.mimeType.includes(filter.mimeType)) return false;
+    if (folder && !folderNames(ctx, file).some(n => n.toLowerCase().includes(folder))) return false;
+    if (filter.olderThanDays !== undefined && age < filter.olderThanDays * DAY_MS) return false;
+    if (filter.newerThanDays !== undefined && age > filter.newerThanDays * DAY_MS) return false;
+    if (filter.minSizeBytes !== undefined && storageBytes(file) < filter.minSizeBytes) return false;
+    if ((filter.onlyCandidates || filter.category) && !candidate) return false;
+    if (filter.category && candidate?.category !== filter.category) return false;
+    if (filter.onlySelected && !ctx.selectedIds.has(file.id)) return false;
+    return true;
+  });
+};
+
+const outgoingName = (ctx: AgentContext, name: string) => ctx.redactor ? ctx.redactor.tokenize(name) : name;
+
+const describeFile = (ctx: AgentContext, file: DriveFile) => {
+  const candidate = ctx.candidatesById.get(file.id);
+  return {
+    id: file.id,
+    name: outgoingName(ctx, file.name),
+    mimeType: file.mimeType,
+    size: formatBytes(storageBytes(file)),
+    modifiedTime: file.modifiedTime,
+    folder: folderNames(ctx, file).map(name => outgoingName(ctx, name)).join(' / ') || undefined,
+    category: candidate?.category,
+    confidence: candidate?.confidence,
+    selected: ctx.selectedIds.has(file.id),
+  };
+};
+
+const listed = (ctx: AgentContext, files: DriveFile[], limit?: number) => {
+  const max = Math.min(Math.max(1, limit || DEFAULT_LIMIT), MAX_LIMIT);
+  return { total: files.length, files: files.slice(0, max).map(f => describeFile(ctx, f)), truncated: files.length > max };
+};
+
+const describeFilter = (filter: FileFilter): string => {
+  const parts: string[] = [];
+  if (filter.ids) parts.push(`${filter.ids.length} named files`);
+  if (filter.nameContains) parts.push(`name contains "${filter.nameContains}"`);
+  if (filter.mimeType) parts.push(`type ${filter.mimeType}`);
+  if (filter.folderName) parts.push(`in folder "${filter.folderName}"`);
+  if (filter.olderThanDays !== undefined) parts.push(`older than ${filter.olderThanDays} days`);
+  if (filter.newerThanDays !== undefined) parts.push(`newer than ${filter.newerThanDays} days`);
+  if (filter.minSizeBytes !== undefined) parts.push(`at least ${formatBytes(filter.minSizeBytes)}`);
+  if (filter.category) parts.push(`category ${filter.category}`);
+  if (filter.onlyCandidates) parts.push('candidates only');
+  return parts.join(', ') || 'all files';
+};
+
+// onlyCandidates and onlySelected only scope a filter; on their own they still cover whole lists.
+const hasCriteria = (filter: FileFilter): boolean => Boolean(filter.ids?.length || filter.nameContains || filter.mimeType
+  || filter.folderName || filter.category || filter.olderThanDays !== undefined || filter.newerThanDays !== undefined
+  || filter.minSizeBytes !== undefined);
+
+const asNumber = (value: unknown) => typeof value === 'number' && isFinite(value) ? value : undefined;
+const asString = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// Model arguments are untrusted; anything of the wrong shape is dropped rather than guessed at.
+export const parseFileFilter = (args: Record<string, unknown>): FileFilter => ({
+  ids: Array.isArray(args.ids) ? args.ids.filter((id): id is string => typeof id === 'string') : undefined,
+  nameContains: asString(args.nameContains),
+  mimeType: asString(args.mimeType),
+  folderName: asString(args.folderName),
+  olderThanDays: asNumber(args.olderThanDays),
+  newerThanDays: asNumber(args.newerThanDays),
+  minSizeBytes: asNumber(args.minSizeBytes),
+  category: (CLEANUP_CATEGORIES as unknown[]).includes(args.category) ? args.category as CleanupCategory : undefined,
+  onlyCandidates: args.onlyCandidates === true ? true : undefined,
+});
+
+const revealArgs = (args: Record<string, unknown>, redactor: NameRedactor): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(args).map(([key, value]) => [key,
+    typeof value === 'string' ? redactor.reveal(value)
+      : Array.isArray(value) ? value.map(v => typeof v === 'string' ? redactor.reveal(v) : v)
+      : value
+  ]));
+
+// Runs one tool call against the current review state. Tools never change that state themselves:
+// selection changes come back as a pending proposal for the user to accept or reject.
+export const runAgentTool = (
+  name: string,
+  args: Record<string, unknown>,
+  ctx: AgentContext,
+  proposalId: string
+): AgentToolResult => {
+  if (ctx.redactor) args = revealArgs(args, ctx.redactor);
+  const filter = parseFileFilter(args);
+  const limit = asNumber(args.limit);
+
+  switch (name as AgentToolName) {
+    case 'listCandidates':
+      return { response: listed(ctx, matchFiles(ctx, { ...filter, onlyCandidates: true }), limit) };
+
+    case 'searchFiles':
+      return { response: listed(ctx, matchFiles(ctx, filter), limit) };
+
+    case 'explainFile': {
+      const id = asString(args.id);
+      const file = id ? ctx.filesById.get(id) : undefined;
+      if (!file) return { response: { error: `No scanned file has the ID "${id}". Use searchFiles to find it.` } };
+      const candidate = ctx.candidatesById.get(file.id);
+      const related = candidate?.relatedId ? ctx.filesById.get(candidate.relatedId) : undefined;
+      return {
+        response: {
+          ...describeFile(ctx, file),
+          reason: candidate ? (ctx.redactor ? ctx.redactor.redactText(candidate.reason) : candidate.reason) : 'Not flagged by the analysis.',
+          relatedFile: related ? outgoingName(ctx, related.name) : undefined,
+          locked: ctx.lockedReason(file) || undefined,
+          shared: file.shared,
+          // Owner addresses identify people, so privacy mode only says whether the file is yours.
+          owners: ctx.redactor ? undefined : file.owners?.map(o => o.emailAddress),
+          ownedByMe: file.ownedByMe,
+        }
+      };
+    }
+
+    case 'selectByFilter': {
+      if (!hasCriteria(filter)) {
+        return { response: { error: 'selectByFilter needs at least one criterion, such as ids, nameContains or olderThanDays; it never selects every file.' } };
+      }
+      // `category` only narrows the match; new candidates get the category the model asked for.
+      const category = (CLEANUP_CATEGORIES as unknown[]).includes(args.flagAs) ? args.flagAs as CleanupCategory : 'old';
+      // A file flagged as a copy must name the copy that stays, or every copy could end up selected.
+      const keepId = asString(args.keepId);
+      const isCopy = category === 'duplicate' || category === 'near_duplicate';
+      if (isCopy && (!keepId || !ctx.filesById.has(keepId))) {
+        return { response: { error: `Flagging files as ${category} needs keepId, the ID of a scanned file to keep.` } };
+      }
+      const matches = matchFiles(ctx, filter).filter(f => !isCopy || f.id !== keepId);
+      const allowed = matches.filter(f => !ctx.lockedReason(f));
+      const toSelect = allowed.filter(f => !ctx.selectedIds.has(f.id));
+      const reason = asString(args.reason) || `Flagged in chat: ${describeFilter(filter)}`;
+      const proposal: AgentProposal = {
+        id: proposalId,
+        tool: 'selectByFilter',
+        description: `Select ${describeFilter(filter)}`,
+        select: toSelect.map(f => f.id),
+        deselect: [],
+        newCandidates: toSelect
+          .filter(f => !ctx.candidatesById.has(f.id))
+          .map(f => ({ id: f.id, category, reason, confidence: CHAT_FLAG_CONFIDENCE, relatedId: isCopy ? keepId : undefined })),
+        skipped: matches.length - allowed.length,
+        status: 'pending',
+      };
+      return {
+        response: {
+          proposalId,
+          wouldSelect: proposal.select.length,
+          newCandidates: proposal.newCandidates.length,
+          skippedLocked: proposal.skipped,
+          alreadySelected: allowed.length - toSelect.length,
+          note: 'Shown to the user as a diff; nothing is selected until they accept it.',
+        },
+        proposal: proposal.select.length > 0 ? proposal : undefined,
+      };
+    }
+
+    case 'deselect': {
+      const toDeselect = matchFiles(ctx, { ...filter, onlySelected: true });
+      const proposal: AgentProposal = {
+        id: proposalId,
+        tool: 'deselect',
+        description: `Keep ${describeFilter(filter)}`,
+        select: [],
+        deselect: toDeselect.map(f => f.id),
+        newCandidates: [],
+        skipped: 0,
+        status: 'pending',
+      };
+      return {
+        response: {
+          proposalId,
+          wouldDeselect: proposal.deselect.length,
+          note: 'Shown to the user as a diff; the selection is unchanged until they accept it.',
+        },
+        proposal: proposal.deselect.length > 0 ? proposal : undefined,
+      };
+    }
+
+    default:
+      return { response: { error: `Unknown tool "${name}".` } };
+  }
+};
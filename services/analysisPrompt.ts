@@ -0,0 +1,42 @@
+
+import { DriveFile, CleanupRule } from "../types.ts";
+import { describeConditions } from "./rulesEngine.ts";
+
+// Recorded with every audit so runs can be compared across prompt changes. Bump it whenever
+// BASE_PROMPT, the rule wording or the response shape changes.
+export const PROMPT_VERSION = 'v4';
+
+const BASE_PROMPT = `Analyze this list of Google Drive files and identify candidates for deletion. 
+  Focus on:
+  1. DUPLICATES: Files with identical names and sizes (or checksums if available).
+  2. NEAR DUPLICATES: Older versions of the same document ("Copy of", "(1)", "_v2", "final" variants).
+  3. LARGE FILES: Files significantly larger than the rest of the list.
+  4. OLD FILES: Files that look abandoned.
+  
+  Provide a JSON response containing the file IDs, the reason for flagging, the category, and a confidence score (0-1).
+  For duplicates and near duplicates, set relatedId to the ID of the copy that should be kept, and never flag that copy itself.
+  Also include a short summary of the findings.`;
+
+// Thresholds come from the user's rule set rather than being fixed in the prompt text.
+export const buildAnalysisPrompt = (rules: CleanupRule[] = []): string => {
+  const enabled = rules.filter(r => r.enabled);
+  if (enabled.length === 0) return BASE_PROMPT;
+  const lines = enabled.map(r => `  - ${r.name}: ${describeConditions(r.conditions)} -> ${r.category}`);
+  return `${BASE_PROMPT}
+
+  The user's own cleanup criteria (apply the same thresholds when judging size and age):
+${lines.join('\n')}`;
+};
+
+// Providers without structured output support get the response shape spelled out instead.
+export const JSON_SHAPE_INSTRUCTIONS = `Respond with a single JSON object and nothing else, shaped as:
+  {"candidates": [{"id": string, "reason": string, "category": "duplicate" | "near_duplicate" | "old" | "large", "confidence": number, "relatedId"?: string}], "summary": string}`;
+
+// We only send relevant metadata to conserve tokens and focus the model on storage patterns.
+export const toAnalysisMetadata = (f: DriveFile) => ({
+  id: f.id,
+  name: f.name,
+  size: f.size ?? f.quotaBytesUsed,
+  modifiedTime: f.modifiedTime,
+  md5Checksum: f.md5Checksum
+});
@@ -0,0 +1,68 @@
+
+import { AnalysisProvider, AnalysisProviderId, ProviderSettings } from "../types.ts";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiService.ts";
+import { createOpenAiCompatibleProvider, DEFAULT_OPENAI_ENDPOINT, DEFAULT_OPENAI_MODEL } from "./openAiCompatibleService.ts";
+
+const STORAGE_KEY = 'DRIVE_PURGE_PROVIDER';
+// The key is gone when the tab closes unless the user asks for it to be remembered.
+const SESSION_KEY_STORAGE_KEY = 'DRIVE_PURGE_PROVIDER_KEY';
+
+export const PROVIDER_OPTIONS: { id: AnalysisProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'openai', label: 'OpenAI-compatible (Ollama, llama.cpp...)' },
+  { id: 'heuristic', label: 'Local rules only (no LLM)' },
+];
+
+export const defaultProviderSettings = (provider: AnalysisProviderId = 'gemini'): ProviderSettings => {
+  switch (provider) {
+    case 'openai': return { provider, model: DEFAULT_OPENAI_MODEL, endpoint: DEFAULT_OPENAI_ENDPOINT };
+    case 'heuristic': return { provider, model: '', endpoint: '' };
+    default: return { provider: 'gemini', model: DEFAULT_GEMINI_MODEL, endpoint: '' };
+  }
+};
+
+export const getProviderSettings = (): ProviderSettings => {
+  let settings = defaultProviderSettings();
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) settings = { ...settings, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("[DrivePurge] Ignoring unreadable provider settings:", e);
+  }
+  // Keys saved before they could be kept per session were never explicitly remembered; move them out.
+  if (settings.apiKey && !settings.rememberApiKey) {
+    saveProviderSettings(settings);
+  }
+  return settings.rememberApiKey ? settings : { ...settings, apiKey: sessionStorage.getItem(SESSION_KEY_STORAGE_KEY) || undefined };
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  const apiKey = settings.apiKey?.trim() || undefined;
+  const remember = Boolean(settings.rememberApiKey);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({
+    ...settings,
+    model: settings.model.trim(),
+    endpoint: settings.endpoint.trim(),
+    apiKey: remember ? apiKey : undefined,
+    rememberApiKey: remember || undefined,
+  }));
+  if (apiKey && !remember) sessionStorage.setItem(SESSION_KEY_STORAGE_KEY, apiKey);
+  else sessionStorage.removeItem(SESSION_KEY_STORAGE_KEY);
+};
+
+// The deterministic local analyzer always runs; this provider simply adds no model layer on top.
+export const heuristicProvider: AnalysisProvider = {
+  id: 'heuristic',
+  label: 'Local rules',
+  model: 'heuristic',
+  isConfigured: () => true,
+  analyze: async () => ({ candidates: [], summary: '' }),
+};
+
+export const createAnalysisProvider = (settings: ProviderSettings = getProviderSettings()): AnalysisProvider => {
+  switch (settings.provider) {
+    case 'openai': return createOpenAiCompatibleProvider(settings);
+    case 'heuristic': return heuristicProvider;
+    default: return createGeminiProvider(settings);
+  }
+};
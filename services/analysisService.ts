@@ -0,0 +1,96 @@
+
+import { DriveFile, AnalysisResult, AnalysisProgress, AnalysisProvider, AnalysisProvenance, CleanupRule, NearDuplicateSettings } from "../types.ts";
+import { createAnalysisProvider } from "./analysisProvider.ts";
+import { mergeAnalysisResults } from "./localAnalyzer.ts";
+import { reviewWorker } from "./reviewWorkerClient.ts";
+import { getRules } from "./rulesEngine.ts";
+import { FolderTree, folderParentMap } from "./folderTree.ts";
+import { getNearDuplicateSettings } from "./nearDuplicates.ts";
+import { hashThumbnails } from "./perceptualHash.ts";
+import { PROMPT_VERSION } from "./analysisPrompt.ts";
+import { createNameRedactor, getPrivacySettings } from "./privacyService.ts";
+import { SharingAuditOptions } from "./sharingAudit.ts";
+
+export interface AnalyzeFilesOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  provider?: AnalysisProvider;
+  rules?: CleanupRule[];
+  nearDuplicates?: NearDuplicateSettings;
+  // Sends tokenized names to the model instead of the real ones; defaults to the privacy setting.
+  redactNames?: boolean;
+  // Flags files shared publicly or outside these domains; skipped when omitted.
+  sharing?: SharingAuditOptions;
+  // Needed for rules that target a folder subtree.
+  folderTree?: FolderTree | null;
+  // Receives the model layer's own findings before they are merged with local rules, so they can be cached.
+  onAiResult?: (ai: AnalysisResult | null) => void;
+  // Incremental re-audit: only files in `aiScopeIds` go to the model, earlier findings are reused for the rest.
+  incremental?: { aiScopeIds: Set<string>; previousAi: AnalysisResult | null };
+}
+
+// Carries earlier model findings forward for files that still exist and were not re-sent.
+const reusePreviousAi = (files: DriveFile[], aiScopeIds: Set<string>, previousAi: AnalysisResult | null): AnalysisResult => {
+  const existing = new Set(files.map(f => f.id));
+  return {
+    candidates: (previousAi?.candidates || []).filter(c => existing.has(c.id) && !aiScopeIds.has(c.id)),
+    summary: previousAi?.summary || ''
+  };
+};
+
+// Runs the deterministic local pass first, then layers the configured model's reasoning on top when it is available.
+export const analyzeFiles = async (files: DriveFile[], options: AnalyzeFilesOptions = {}): Promise<AnalysisResult> => {
+  const {
+    onProgress, provider = createAnalysisProvider(), rules = getRules(), nearDuplicates = getNearDuplicateSettings(),
+    folderTree, onAiResult, incremental, redactNames = getPrivacySettings().redactNames, sharing
+  } = options;
+  const thumbnailHashes = nearDuplicates.enabled && nearDuplicates.compareThumbnails
+    ? await hashThumbnails(files)
+    : undefined;
+  // The local pass takes most of a second on a 50k-file Drive, so it runs in the review worker.
+  const local = await reviewWorker.analyzeLocally(files, {
+    rules,
+    folderParents: folderTree ? folderParentMap(folderTree) : undefined,
+    nearDuplicates,
+    thumbnailHashes,
+    sharing
+  });
+  const provenance = (aiApplied: boolean): AnalysisProvenance =>
+    ({ provider: provider.id, model: provider.model, promptVersion: PROMPT_VERSION, aiApplied });
+
+  if (provider.id === 'heuristic') {
+    onAiResult?.(null);
+    return { ...local, provenance: provenance(false) };
+  }
+  if (!provider.isConfigured()) {
+    onAiResult?.(null);
+    return { ...local, summary: `${local.summary} ${provider.label} is not configured, so only local rules were applied.`, provenance: provenance(false) };
+  }
+
+  const aiFiles = incremental ? files.filter(f => incremental.aiScopeIds.has(f.id)) : files;
+  // Reasons come back with tokens in them; they are mapped back to real names only for display.
+  const redactor = redactNames ? createNameRedactor([]) : null;
+  const carried = incremental ? reusePreviousAi(files, incremental.aiScopeIds, incremental.previousAi) : null;
+
+  try {
+    const fresh = aiFiles.length > 0
+      ? await provider.analyze(redactor ? aiFiles.map(redactor.redact) : aiFiles, { onProgress, rules })
+      : { candidates: [], summary: '' };
+    const ai: AnalysisResult = carried
+      ? {
+          candidates: [...carried.candidates, ...fresh.candidates],
+          summary: `Re-analyzed ${aiFiles.length} changed files. ${fresh.summary || carried.summary}`.trim(),
+          diagnostics: fresh.diagnostics
+        }
+      : fresh;
+    onAiResult?.(ai);
+    return { ...mergeAnalysisResults(local, ai), provenance: provenance(true) };
+  } catch (error) {
+    console.error("AI layer failed, falling back to local analysis:", error);
+    onAiResult?.(carried);
+    const base = carried ? mergeAnalysisResults(local, carried) : local;
+    const note = carried
+      ? 'The AI layer was unavailable, so earlier model findings were reused for unchanged files.'
+      : 'The AI layer was unavailable, so only local rules were applied.';
+    return { ...base, summary: `${local.summary} ${note}`, provenance: provenance(Boolean(carried)) };
+  }
+};
@@ -0,0 +1,137 @@
+
+import {
+  DriveFile,
+  AnalysisResult,
+  AnalysisDiagnostic,
+  CleanupCandidate,
+  CleanupCategory,
+  CLEANUP_CATEGORIES
+} from "../types.ts";
+
+// Wordings the model tends to use instead of the exact category names.
+const CATEGORY_ALIASES: Record<string, CleanupCategory> = {
+  duplicates: 'duplicate',
+  dup: 'duplicate',
+  dupe: 'duplicate',
+  copy: 'duplicate',
+  redundant: 'duplicate',
+  near_duplicates: 'near_duplicate',
+  'near duplicate': 'near_duplicate',
+  'near-duplicate': 'near_duplicate',
+  similar: 'near_duplicate',
+  version: 'near_duplicate',
+  'old version': 'near_duplicate',
+  stale: 'old',
+  outdated: 'old',
+  abandoned: 'old',
+  unused: 'old',
+  big: 'large',
+  oversized: 'large',
+  huge: 'large',
+};
+
+const normalizeCategory = (raw: unknown): CleanupCategory | null => {
+  if (typeof raw !== 'string') return null;
+  const key = raw.trim().toLowerCase().replace(/[\s_-]*files?$/, '');
+  if ((CLEANUP_CATEGORIES as string[]).includes(key)) return key as CleanupCategory;
+  return CATEGORY_ALIASES[key] || null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks raw model output against the files that were actually sent, so the UI only ever sees
+// candidates that point at real files with a known category and a score in [0, 1].
+export const validateAnalysisResult = (raw: unknown, files: DriveFile[]): AnalysisResult => {
+  const diagnostics: AnalysisDiagnostic[] = [];
+  const knownIds = new Set(files.map(f => f.id));
+  const byId = new Map<string, CleanupCandidate>();
+
+  if (!isRecord(raw)) {
+    diagnostics.push({ kind: 'malformed_entry', detail: 'Response was not a JSON object.' });
+    return { candidates: [], summary: '', diagnostics };
+  }
+
+  const entries = Array.isArray(raw.candidates) ? raw.candidates : [];
+  if (!Array.isArray(raw.candidates)) {
+    diagnostics.push({ kind: 'malformed_entry', detail: 'Response had no candidates array.' });
+  }
+
+  for (const entry of entries) {
+    if (!isRecord(entry) || typeof entry.id !== 'string') {
+      diagnostics.push({ kind: 'malformed_entry', detail: `Entry without a usable id: ${JSON.stringify(entry)?.slice(0, 120)}` });
+      continue;
+    }
+    const id = entry.id;
+
+    if (!knownIds.has(id)) {
+      diagnostics.push({ kind: 'unknown_id', id, detail: `"${id}" is not one of the scanned files.` });
+      continue;
+    }
+
+    const category = normalizeCategory(entry.category);
+    if (!category) {
+      diagnostics.push({ kind: 'invalid_category', id, detail: `Unrecognized category ${JSON.stringify(entry.category)}.` });
+      continue;
+    }
+    if (category !== entry.category) {
+      diagnostics.push({ kind: 'normalized_category', id, detail: `Category ${JSON.stringify(entry.category)} treated as "${category}".` });
+    }
+
+    const rawConfidence = typeof entry.confidence === 'number' ? entry.confidence : parseFloat(String(entry.confidence));
+    if (isNaN(rawConfidence)) {
+      diagnostics.push({ kind: 'malformed_entry', id, detail: `Confidence ${JSON.stringify(entry.confidence)} is not a number.` });
+      continue;
+    }
+    const confidence = Math.min(1, Math.max(0, rawConfidence));
+    if (confidence !== rawConfidence) {
+      diagnostics.push({ kind: 'clamped_confidence', id, detail: `Confidence ${rawConfidence} clamped to ${confidence}.` });
+    }
+
+    const reason = typeof entry.reason === 'string' && entry.reason.trim() ? entry.reason.trim() : 'Flagged by the analysis agent.';
+    const candidate: CleanupCandidate = { id, reason, category, confidence };
+    // The copy this one duplicates; it is what keeps the two in one group with a single survivor.
+    if ((category === 'duplicate' || category === 'near_duplicate') && typeof entry.relatedId === 'string'
+      && entry.relatedId !== id && knownIds.has(entry.relatedId)) {
+      candidate.relatedId = entry.relatedId;
+    }
+
+    const existing = byId.get(id);
+    if (existing) {
+      diagnostics.push({ kind: 'repeated_entry', id, detail: `"${id}" was returned more than once; entries were collapsed.` });
+      const stronger = candidate.confidence > existing.confidence ? candidate : existing;
+      byId.set(id, {
+        ...stronger,
+        reason: existing.reason === candidate.reason ? existing.reason : `${stronger.reason}; ${(stronger === candidate ? existing : candidate).reason}`
+      });
+      continue;
+    }
+    byId.set(id, candidate);
+  }
+
+  return {
+    candidates: Array.from(byId.values()),
+    summary: typeof raw.summary === 'string' ? raw.summary : '',
+    diagnostics
+  };
+};
+
+// Shared tail of every provider call: parse the raw model text and validate it.
+export const parseModelResponse = (text: string | undefined | null, files: DriveFile[]): AnalysisResult => {
+  if (!text) {
+    return { candidates: [], summary: "No analysis generated by the model." };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (parseError) {
+    console.error("Failed to parse model JSON output:", parseError);
+    return {
+      candidates: [],
+      summary: "Received invalid data format from analysis agent.",
+      diagnostics: [{ kind: 'unparseable_response', detail: `Response for ${files.length} files was not valid JSON.` }]
+    };
+  }
+  return validateAnalysisResult(parsed, files);
+};
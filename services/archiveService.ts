@@ -0,0 +1,87 @@
+
+import { DriveFile, PurgeAction } from "../types.ts";
+import { createZip, ZipEntry } from "../utils/zip.ts";
+
+const STORAGE_KEY = 'DRIVE_PURGE_ARCHIVE_FOLDER';
+
+export const DEFAULT_ARCHIVE_FOLDER_NAME = 'DrivePurge Archive';
+
+// The bundle is assembled in memory before it is saved, so one purge downloads at most this much.
+// Well below the 4 GB a ZIP without ZIP64 can describe.
+export const MAX_BUNDLE_BYTES = 1024 * 1024 * 1024;
+
+export const PURGE_ACTION_LABELS: Record<PurgeAction, string> = {
+  trash: 'Move to Trash',
+  archive: 'Move to archive folder',
+  download: 'Download, then trash',
+  restrict: 'Restrict sharing',
+};
+
+export const getArchiveFolderName = (): string =>
+  localStorage.getItem(STORAGE_KEY)?.trim() || DEFAULT_ARCHIVE_FOLDER_NAME;
+
+export const saveArchiveFolderName = (name: string) => {
+  if (name.trim() && name.trim() !== DEFAULT_ARCHIVE_FOLDER_NAME) localStorage.setItem(STORAGE_KEY, name.trim());
+  else localStorage.removeItem(STORAGE_KEY);
+};
+
+// Office formats for the Docs Editors; other Google-native types (Forms, Sites, shortcuts) cannot be exported.
+const EXPORT_FORMATS: Record<string, { mimeType: string; extension: string }> = {
+  'application/vnd.google-apps.document': { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', extension: 'docx' },
+  'application/vnd.google-apps.spreadsheet': { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+  'application/vnd.google-apps.presentation': { mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', extension: 'pptx' },
+  'application/vnd.google-apps.drawing': { mimeType: 'image/png', extension: 'png' },
+  'application/vnd.google-apps.script': { mimeType: 'application/vnd.google-apps.script+json', extension: 'json' },
+};
+
+export const isGoogleNative = (file: DriveFile) => file.mimeType.startsWith('application/vnd.google-apps.');
+
+export const exportFormatFor = (mimeType: string) => EXPORT_FORMATS[mimeType] || null;
+
+export interface DownloadedFile {
+  file: DriveFile;
+  blob: Blob;
+  // Set when a Google-native file was converted on export.
+  exportedAs?: string;
+}
+
+// Names inside the ZIP must be unique and free of path separators.
+const bundlePath = (download: DownloadedFile, used: Set<string>): string => {
+  const extension = download.exportedAs ? exportFormatFor(download.file.mimeType)?.extension : undefined;
+  const safe = download.file.name.replace(/[\\/:*?"<>|]/g, '_') || download.file.id;
+  const base = extension && !safe.toLowerCase().endsWith(`.${extension}`) ? `${safe}.${extension}` : safe;
+  const dot = base.lastIndexOf('.');
+  const [stem, ext] = dot > 0 ? [base.slice(0, dot), base.slice(dot)] : [base, ''];
+  let path = `files/${base}`;
+  for (let n = 2; used.has(path.toLowerCase()); n++) path = `files/${stem} (${n})${ext}`;
+  used.add(path.toLowerCase());
+  return path;
+};
+
+// Packs the downloaded files into a ZIP with a manifest.json mapping every entry back to its Drive file.
+export const buildArchiveBundle = async (downloads: DownloadedFile[], runId: string): Promise<Blob> => {
+  const total = downloads.reduce((sum, d) => sum + d.blob.size, 0);
+  if (total > MAX_BUNDLE_BYTES) throw new Error(`The downloads add up to more than the ${Math.round(MAX_BUNDLE_BYTES / 1024 ** 3)} GB a bundle can hold.`);
+  const used = new Set<string>();
+  const entries: ZipEntry[] = [];
+  const manifest = [];
+  for (const download of downloads) {
+    const { file } = download;
+    const path = bundlePath(download, used);
+    entries.push({ path, data: new Uint8Array(await download.blob.arrayBuffer()), modified: new Date(file.modifiedTime) });
+    manifest.push({
+      path,
+      id: file.id,
+      name: file.name,
+      mimeType: file.mimeType,
+      exportedAs: download.exportedAs,
+      bytes: download.blob.size,
+      modifiedTime: file.modifiedTime,
+      parents: file.parents,
+      webViewLink: file.webViewLink,
+    });
+  }
+  const json = JSON.stringify({ runId, createdAt: new Date().toISOString(), files: manifest }, null, 2);
+  entries.unshift({ path: 'manifest.json', data: new TextEncoder().encode(json) });
+  return createZip(entries);
+};
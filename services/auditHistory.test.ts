@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { auditHistory, buildAuditRun, diffAuditRuns } from "./auditHistory.ts";
+import { AnalysisResult, AuditRun, CleanupCandidate, DriveFile } from "../types.ts";
+
+// An in-memory audit store. Writes finish a few milliseconds after reads, as they can in IndexedDB.
+const db = vi.hoisted(() => {
+  const records = new Map<string, unknown>();
+  const store = {
+    getAll: () => Array.from(records.values()),
+    get: (id: string) => records.get(id),
+    put: (run: { id: string }) => records.set(run.id, run),
+    delete: (id: string) => records.delete(id),
+  };
+  return { records, store };
+});
+vi.mock('./database.ts', () => ({
+  AUDIT_STORE: 'audit',
+  runRequest: (_store: string, mode: string, action: (store: unknown) => unknown) =>
+    new Promise(resolve => setTimeout(() => resolve(action(db.store)), mode === 'readwrite' ? 5 : 0)),
+}));
+
+const files: DriveFile[] = ['a', 'b', 'c'].map(id =>
+  ({ id, name: `${id}.mp4`, mimeType: 'video/mp4', modifiedTime: '2024-01-01T00:00:00Z', size: '1000' }));
+const analysis = (candidates: CleanupCandidate[]): AnalysisResult => ({ candidates, summary: 'Three videos' });
+const flag = (id: string, confidence: number, category: CleanupCandidate['category'] = 'large'): CleanupCandidate =>
+  ({ id, category, reason: 'Big', confidence });
+
+describe('buildAuditRun', () => {
+  it('records each candidate with its file and the heuristic provenance by default', () => {
+    const run = buildAuditRun(analysis([flag('a', 0.9)]), files, ['a'], { accountEmail: 'ana@example.com' });
+
+    expect(run).toMatchObject({
+      accountEmail: 'ana@example.com',
+      fileCount: 3,
+      selectedIds: ['a'],
+      provenance: { provider: 'heuristic', aiApplied: false },
+      candidates: [{ id: 'a', name: 'a.mp4', bytes: 1000, category: 'large', confidence: 0.9 }],
+    });
+  });
+});
+
+describe('diffAuditRuns', () => {
+  it('reports new, dropped and rescored candidates, biggest change first', () => {
+    const older = buildAuditRun(analysis([flag('a', 0.9), flag('b', 0.5), flag('c', 0.6)]), files, []);
+    const newer = buildAuditRun(analysis([flag('a', 0.902), flag('b', 0.9), flag('c', 0.6, 'old')]), files, []);
+    const fewer = buildAuditRun(analysis([flag('a', 0.9)]), files, []);
+
+    const diff = diffAuditRuns(older, newer);
+    expect(diff.newlyFlagged).toEqual([]);
+    expect(diff.changed.map(change => change.after.id)).toEqual(['b', 'c']);
+    expect(diffAuditRuns(older, fewer).noLongerFlagged.map(c => c.id)).toEqual(['b', 'c']);
+    expect(diffAuditRuns(fewer, older).newlyFlagged.map(c => c.id)).toEqual(['b', 'c']);
+  });
+});
+
+describe('auditHistory', () => {
+  beforeEach(() => db.records.clear());
+
+  const runFor = (accountEmail?: string): AuditRun => buildAuditRun(analysis([flag('a', 0.9)]), files, [], { accountEmail });
+
+  it('lists the runs of the signed-in account only', async () => {
+    const ana = runFor('Ana@example.com');
+    const ben = runFor('ben@example.com');
+    const demo = runFor();
+    for (const run of [ana, ben, demo]) await auditHistory.save(run);
+
+    expect((await auditHistory.list('ana@example.com')).map(r => r.id)).toEqual([ana.id]);
+    expect((await auditHistory.list(null)).map(r => r.id)).toEqual([demo.id]);
+  });
+
+  it('applies an update to a run that is still being saved', async () => {
+    const run = runFor('ana@example.com');
+    const saved = auditHistory.save(run);
+    await auditHistory.update(run.id, { selectedIds: ['a'] });
+    await saved;
+
+    expect((await auditHistory.list('ana@example.com'))[0].selectedIds).toEqual(['a']);
+  });
+});
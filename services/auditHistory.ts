@@ -0,0 +1,133 @@
+
+import { AuditRun, AuditRunDiff, AuditCandidateRecord, AnalysisResult, DriveFile } from "../types.ts";
+import { AUDIT_STORE, runRequest } from "./database.ts";
+import { storageBytes } from "./storageQuota.ts";
+
+// Oldest runs are dropped beyond this; each run only holds its candidates, not the whole listing.
+const MAX_RUNS = 200;
+// Confidence moves smaller than this are rounding noise, not a change in the model's judgement.
+const SCORE_EPSILON = 0.005;
+
+export const createAuditRunId = (): string =>
+  `audit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const buildAuditRun = (
+  analysis: AnalysisResult,
+  files: DriveFile[],
+  selectedIds: string[],
+  extra: Pick<AuditRun, 'accountEmail' | 'scope'> = {},
+  // Privacy mode leaves name tokens in the model's text; runs are stored with the real names.
+  reveal: (text: string) => string = text => text
+): AuditRun => {
+  const byId = new Map(files.map(f => [f.id, f]));
+  const candidates: AuditCandidateRecord[] = analysis.candidates.map(c => {
+    const file = byId.get(c.id);
+    return {
+      id: c.id,
+      name: file?.name || c.id,
+      mimeType: file?.mimeType || '',
+      bytes: file ? storageBytes(file) : 0,
+      category: c.category,
+      reason: reveal(c.reason),
+      confidence: c.confidence,
+    };
+  });
+  return {
+    id: createAuditRunId(),
+    startedAt: new Date().toISOString(),
+    ...extra,
+    provenance: analysis.provenance || { provider: 'heuristic', model: 'heuristic', promptVersion: 'unknown', aiApplied: false },
+    fileCount: files.length,
+    summary: reveal(analysis.summary),
+    candidates,
+    selectedIds,
+  };
+};
+
+// Compares what an older and a newer run flagged, matched by file ID.
+export const diffAuditRuns = (older: AuditRun, newer: AuditRun): AuditRunDiff => {
+  const before = new Map(older.candidates.map(c => [c.id, c]));
+  const after = new Map(newer.candidates.map(c => [c.id, c]));
+  return {
+    newlyFlagged: newer.candidates.filter(c => !before.has(c.id)),
+    noLongerFlagged: older.candidates.filter(c => !after.has(c.id)),
+    changed: newer.candidates
+      .filter(c => {
+        const previous = before.get(c.id);
+        return previous && (previous.category !== c.category || Math.abs(previous.confidence - c.confidence) > SCORE_EPSILON);
+      })
+      .map(c => ({ before: before.get(c.id)!, after: c }))
+      .sort((a, b) => Math.abs(b.after.confidence - b.before.confidence) - Math.abs(a.after.confidence - a.before.confidence)),
+  };
+};
+
+// Every audit, kept in IndexedDB next to the scan snapshot. Failures are logged and treated as
+// "no history" so an unavailable database never blocks an audit.
+class AuditHistoryStore {
+  // Saves still being written, so an update that follows right away finds its run.
+  private saving = new Map<string, Promise<void>>();
+
+  private run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return runRequest<T>(AUDIT_STORE, mode, action);
+  }
+
+  // Every account's runs, newest first.
+  private async all(): Promise<AuditRun[]> {
+    const runs = await this.run<AuditRun[]>('readonly', store => store.getAll());
+    return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  // The runs of one account, newest first, like the purge log and the scan snapshot. Runs recorded
+  // without an account (the demo Drive) belong to nobody who is signed in.
+  async list(accountEmail: string | null): Promise<AuditRun[]> {
+    const owner = accountEmail?.toLowerCase() || null;
+    try {
+      return (await this.all()).filter(run => (run.accountEmail?.toLowerCase() || null) === owner);
+    } catch (e) {
+      console.error("[DrivePurge] Could not read audit history:", e);
+      return [];
+    }
+  }
+
+  save(run: AuditRun): Promise<void> {
+    const saved = (async () => {
+      try {
+        await this.run('readwrite', store => store.put(run));
+        const runs = await this.all();
+        for (const stale of runs.slice(MAX_RUNS)) await this.delete(stale.id);
+      } catch (e) {
+        console.error("[DrivePurge] Could not save audit run:", e);
+      }
+    })();
+    this.saving.set(run.id, saved);
+    return saved.finally(() => this.saving.delete(run.id));
+  }
+
+  async update(id: string, patch: Partial<Omit<AuditRun, 'id'>>): Promise<void> {
+    await this.saving.get(id);
+    try {
+      const run = await this.run<AuditRun | undefined>('readonly', store => store.get(id));
+      if (run) await this.run('readwrite', store => store.put({ ...run, ...patch }));
+    } catch (e) {
+      console.error("[DrivePurge] Could not update audit run:", e);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.run('readwrite', store => store.delete(id));
+    } catch (e) {
+      console.error("[DrivePurge] Could not delete audit run:", e);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.run('readwrite', store => store.clear());
+    } catch (e) {
+      console.error("[DrivePurge] Could not clear audit history:", e);
+    }
+  }
+}
+
+export const auditHistory = new AuditHistoryStore();
@@ -0,0 +1,131 @@
+
+import { DriveFile, AnalysisResult, AnalysisProgress, AnalysisRunOptions, CleanupCandidate } from "../types.ts";
+import { runWithConcurrency } from "../utils/concurrency.ts";
+import { toAnalysisMetadata } from "./analysisPrompt.ts";
+
+// Rough heuristic: ~4 characters of JSON per token is close enough for budgeting prompts.
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (value: unknown): number =>
+  Math.ceil(JSON.stringify(value).length / CHARS_PER_TOKEN);
+
+// Union-find over checksum and name+size so every file that could be a duplicate of another
+// ends up in the same cluster, even when only one of the two keys matches.
+const clusterLikelyDuplicates = (files: DriveFile[]): DriveFile[][] => {
+  const parent = files.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[rb] = ra;
+  };
+
+  const firstByKey = new Map<string, number>();
+  files.forEach((f, i) => {
+    const keys = [`name:${f.name.toLowerCase()}|${f.size || ''}`];
+    if (f.md5Checksum) keys.push(`md5:${f.md5Checksum}`);
+    for (const key of keys) {
+      const seen = firstByKey.get(key);
+      if (seen === undefined) firstByKey.set(key, i); else union(seen, i);
+    }
+  });
+
+  const clusters = new Map<number, DriveFile[]>();
+  files.forEach((f, i) => {
+    const root = find(i);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.push(f); else clusters.set(root, [f]);
+  });
+  return Array.from(clusters.values());
+};
+
+// Packs files into chunks that stay under the token budget without splitting a duplicate cluster.
+// A single cluster larger than the budget becomes its own oversized chunk.
+export const chunkFilesByTokenBudget = <T>(
+  files: DriveFile[],
+  tokenBudget: number,
+  toPayload: (file: DriveFile) => T
+): DriveFile[][] => {
+  const chunks: DriveFile[][] = [];
+  let current: DriveFile[] = [];
+  let currentTokens = 0;
+
+  for (const cluster of clusterLikelyDuplicates(files)) {
+    const clusterTokens = cluster.reduce((sum, f) => sum + estimateTokens(toPayload(f)), 0);
+    if (current.length > 0 && currentTokens + clusterTokens > tokenBudget) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(...cluster);
+    currentTokens += clusterTokens;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
+
+export interface ChunkedAnalysisOptions extends AnalysisRunOptions {
+  // Approximate input tokens of file metadata per request.
+  tokenBudget?: number;
+  concurrency?: number;
+}
+
+// Splits the file list into budgeted chunks, runs the provider's per-chunk call on each and merges
+// the results. Failed chunks are skipped unless every chunk fails.
+export const analyzeInChunks = async (
+  files: DriveFile[],
+  analyzeChunk: (chunk: DriveFile[]) => Promise<AnalysisResult>,
+  options: ChunkedAnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const { tokenBudget = 30000, concurrency = 3, onProgress } = options;
+  const chunks = chunkFilesByTokenBudget(files, tokenBudget, toAnalysisMetadata);
+  const progress: AnalysisProgress = { completedChunks: 0, failedChunks: 0, totalChunks: chunks.length };
+  if (onProgress) onProgress({ ...progress });
+
+  const settled = await runWithConcurrency(chunks, concurrency, async (chunk) => {
+    try {
+      return await analyzeChunk(chunk);
+    } catch (error) {
+      progress.failedChunks++;
+      throw error;
+    } finally {
+      progress.completedChunks++;
+      if (onProgress) onProgress({ ...progress });
+    }
+  });
+
+  const results = settled.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+  if (results.length === 0 && settled.length > 0) {
+    const firstFailure = settled.find(r => r.status === 'rejected') as PromiseRejectedResult;
+    throw firstFailure.reason;
+  }
+  return combineChunkResults(results, chunks.length, progress.failedChunks);
+};
+
+// A file can only appear in one chunk, but the model may still repeat an ID; keep the strongest entry.
+const combineChunkResults = (results: AnalysisResult[], totalChunks: number, failedChunks: number): AnalysisResult => {
+  const byId = new Map<string, CleanupCandidate>();
+  for (const candidate of results.flatMap(r => r.candidates)) {
+    const existing = byId.get(candidate.id);
+    if (!existing || candidate.confidence > existing.confidence) byId.set(candidate.id, candidate);
+  }
+
+  const diagnostics = results.flatMap(r => r.diagnostics || []);
+
+  if (totalChunks <= 1) {
+    return { candidates: Array.from(byId.values()), summary: results[0]?.summary || '', diagnostics };
+  }
+  const summaries = results.map(r => r.summary).filter(Boolean);
+  const failureNote = failedChunks > 0 ? ` ${failedChunks} batch(es) failed and were skipped.` : '';
+  return {
+    candidates: Array.from(byId.values()),
+    summary: `Analyzed in ${totalChunks} batches.${failureNote} ${summaries.join(' ')}`.trim(),
+    diagnostics
+  };
+};
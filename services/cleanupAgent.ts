@@ -0,0 +1,144 @@
+
+import { Content, FunctionDeclaration, Type } from "@google/genai";
+import { AgentProposal, DriveFile, ProviderSettings, CLEANUP_CATEGORIES } from "../types.ts";
+import { getGeminiClient, DEFAULT_GEMINI_MODEL } from "./geminiService.ts";
+import { getProviderSettings } from "./analysisProvider.ts";
+import { AgentContext, runAgentTool } from "./agentTools.ts";
+import { NameRedactor } from "./privacyService.ts";
+
+// Stops a model that keeps calling tools without ever answering.
+const MAX_TOOL_ROUNDS = 6;
+
+const SYSTEM_INSTRUCTION = `You are the DrivePurge cleanup assistant. The user is reviewing Google Drive files flagged for trashing
+and talks to you to refine which files are selected. Use the tools to look at the scanned files instead of guessing.
+selectByFilter and deselect only propose a change: the user sees it as a diff and accepts or rejects it, so say what you proposed
+rather than claiming it is done. When asked to flag files that are not candidates yet, pass the closest category as flagAs,
+and when flagging copies also pass keepId, the copy that stays.
+Protected files and the kept copy of a duplicate group can never be selected. Keep answers short.
+File names may be tokens such as file_3fa91c0d22be; repeat them exactly as given.`;
+
+const filterProperties = {
+  ids: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Exact file IDs.' },
+  nameContains: { type: Type.STRING, description: 'Case-insensitive substring of the file name.' },
+  mimeType: { type: Type.STRING, description: 'Substring of the MIME type, e.g. "image/" or "pdf".' },
+  folderName: { type: Type.STRING, description: 'Matches files in this folder or any folder below it.' },
+  olderThanDays: { type: Type.NUMBER, description: 'Last modified more than this many days ago.' },
+  newerThanDays: { type: Type.NUMBER, description: 'Last modified within this many days.' },
+  minSizeBytes: { type: Type.NUMBER },
+  category: { type: Type.STRING, format: 'enum', enum: CLEANUP_CATEGORIES, description: 'Cleanup category.' },
+};
+
+const TOOL_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'listCandidates',
+    description: 'Lists files the analysis flagged for cleanup, with category, confidence and whether they are selected.',
+    parameters: { type: Type.OBJECT, properties: { ...filterProperties, limit: { type: Type.NUMBER } } },
+  },
+  {
+    name: 'searchFiles',
+    description: 'Searches every scanned file, flagged or not.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { ...filterProperties, onlyCandidates: { type: Type.BOOLEAN }, limit: { type: Type.NUMBER } },
+    },
+  },
+  {
+    name: 'explainFile',
+    description: 'Explains why a file was flagged and whether it can be trashed.',
+    parameters: { type: Type.OBJECT, properties: { id: { type: Type.STRING } }, required: ['id'] },
+  },
+  {
+    name: 'selectByFilter',
+    description: 'Proposes selecting every matching file for trashing; at least one filter besides onlyCandidates is required. `category` only matches existing candidates; files that are not candidates yet are flagged as `flagAs`.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ...filterProperties,
+        onlyCandidates: { type: Type.BOOLEAN },
+        flagAs: { type: Type.STRING, format: 'enum', enum: CLEANUP_CATEGORIES, description: 'Category for files that are not candidates yet. Defaults to "old".' },
+        keepId: { type: Type.STRING, description: 'Required when flagAs is duplicate or near_duplicate: the ID of the copy to keep. It is never selected.' },
+        reason: { type: Type.STRING, description: 'Why these files should go, shown to the user.' },
+      },
+    },
+  },
+  {
+    name: 'deselect',
+    description: 'Proposes removing matching files from the selection so they are kept.',
+    parameters: { type: Type.OBJECT, properties: filterProperties },
+  },
+];
+
+// What the first request of a conversation carries besides the user's message: the instructions and a
+// typical tool response, with names tokenized when privacy mode is on.
+export const previewChatPayload = (files: DriveFile[], redactor: NameRedactor | null): string => {
+  const context: AgentContext = {
+    files,
+    filesById: new Map(files.map(f => [f.id, f])),
+    candidatesById: new Map(),
+    selectedIds: new Set(),
+    folderTree: null,
+    lockedReason: () => null,
+    redactor,
+  };
+  const sample = runAgentTool('searchFiles', { limit: 5 }, context, 'preview').response;
+  return `${SYSTEM_INSTRUCTION}\n\nsearchFiles response:\n${JSON.stringify(sample, null, 2)}`;
+};
+
+export interface AgentReply {
+  text: string;
+  proposals: AgentProposal[];
+}
+
+export interface CleanupAgent {
+  isConfigured: () => boolean;
+  // `getContext` is read before every tool call so accepted proposals are visible mid-conversation.
+  send: (message: string, getContext: () => AgentContext) => Promise<AgentReply>;
+  reset: () => void;
+}
+
+// Chat is Gemini-only for now; it reuses the Gemini key and, when Gemini is the analysis provider, its model.
+export const createCleanupAgent = (settings: ProviderSettings = getProviderSettings()): CleanupAgent => {
+  const apiKey = (settings.provider === 'gemini' && settings.apiKey) || process.env.API_KEY || '';
+  const model = (settings.provider === 'gemini' && settings.model) || DEFAULT_GEMINI_MODEL;
+  let history: Content[] = [];
+  let proposalCount = 0;
+
+  return {
+    isConfigured: () => Boolean(apiKey),
+    reset: () => { history = []; },
+    send: async (message, getContext) => {
+      // Names are tokenized on the way out and put back only in the text shown to the user.
+      const redactor = getContext().redactor;
+      const outgoing = redactor ? redactor.redactText(message) : message;
+      const turn: Content[] = [...history, { role: 'user', parts: [{ text: outgoing }] }];
+      const proposals: AgentProposal[] = [];
+
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const response = await getGeminiClient(apiKey).models.generateContent({
+          model,
+          contents: turn,
+          config: { systemInstruction: SYSTEM_INSTRUCTION, tools: [{ functionDeclarations: TOOL_DECLARATIONS }] },
+        });
+        const content = response.candidates?.[0]?.content;
+        if (content) turn.push(content);
+        const calls = response.functionCalls || [];
+        if (calls.length === 0) {
+          // History only advances once a turn completes, so a failed request can simply be retried.
+          history = turn;
+          const text = response.text || 'Done.';
+          return { text: redactor ? redactor.reveal(text) : text, proposals };
+        }
+        turn.push({
+          role: 'user',
+          parts: calls.map(call => {
+            const result = runAgentTool(call.name || '', call.args || {}, getContext(), `proposal-${++proposalCount}`);
+            if (result.proposal) proposals.push(result.proposal);
+            return { functionResponse: { id: call.id, name: call.name, response: result.response } };
+          }),
+        });
+      }
+      history = turn;
+      return { text: 'I stopped after several tool calls without reaching an answer. Try narrowing the request.', proposals };
+    },
+  };
+};
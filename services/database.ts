@@ -0,0 +1,68 @@
+
+const DB_NAME = 'drive-purge';
+// v2 adds the audit history store.
+const DB_VERSION = 2;
+
+export const SNAPSHOT_STORE = 'snapshots';
+export const AUDIT_STORE = 'audits';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Another tab still has the previous version open, so the upgrade cannot run until it closes.
+export class DatabaseBlockedError extends Error {
+  constructor() {
+    super("DrivePurge is open in another tab that is still using the previous version of its local data. Close the other tabs and reload this one to keep snapshots and audit history working.");
+    this.name = 'DatabaseBlockedError';
+  }
+}
+
+// One connection shared by every store; a failed open is retried on the next call.
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+      request.onupgradeneeded = () => {
+        for (const name of [SNAPSHOT_STORE, AUDIT_STORE]) {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onblocked = () => {
+        blocked = true;
+        reject(new DatabaseBlockedError());
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // The other tab closed after this open was given up on; the next call opens afresh.
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // A newer version in another tab is waiting on this connection: let it go and reopen on next use.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
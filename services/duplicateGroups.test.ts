@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { applyStrategy, buildDuplicateGroups, carrySurvivors, selectNonSurvivors, withoutRelatedCopies, withoutRelatedTargets, withoutSurvivors } from "./duplicateGroups.ts";
+import { CleanupCandidate, DriveFile } from "../types.ts";
+
+const copy = (id: string, modifiedTime: string, parents: string[] = ['root']): DriveFile =>
+  ({ id, name: id === 'c' ? 'Report final.pdf' : 'Report.pdf', mimeType: 'application/pdf', modifiedTime, size: '2048', md5Checksum: 'abc', parents });
+
+const files = [
+  copy('a', '2024-03-01T00:00:00Z'),
+  copy('b', '2022-03-01T00:00:00Z', ['archive']),
+  copy('c', '2023-03-01T00:00:00Z'),
+  { id: 'other', name: 'Notes.txt', mimeType: 'text/plain', modifiedTime: '2024-01-01T00:00:00Z', size: '10' },
+];
+const flagged: CleanupCandidate[] = [{ id: 'b', category: 'duplicate', reason: 'Same checksum', confidence: 0.95 }];
+
+// Copies the model or the chat linked by relatedId, with no checksum or size in common.
+const budget = (id: string, name: string, modifiedTime: string): DriveFile =>
+  ({ id, name, mimeType: 'application/pdf', modifiedTime, size: String(id.length * 1000 + name.length) });
+const budgets = [
+  budget('x', 'Budget.pdf', '2024-01-01T00:00:00Z'),
+  budget('y', 'Budget (1).pdf', '2023-01-01T00:00:00Z'),
+  budget('z', 'Budget copy.pdf', '2022-01-01T00:00:00Z'),
+];
+const copyOf = (id: string, relatedId?: string): CleanupCandidate =>
+  ({ id, category: 'duplicate', reason: 'Same budget', confidence: 0.9, relatedId });
+
+describe('buildDuplicateGroups', () => {
+  it('groups every copy of a flagged duplicate and keeps the newest', () => {
+    expect(buildDuplicateGroups(files, flagged)).toEqual([{ key: 'abc', fileIds: ['a', 'b', 'c'], survivorId: 'a' }]);
+  });
+
+  it('leaves out groups nobody flagged', () => {
+    expect(buildDuplicateGroups(files, [])).toEqual([]);
+  });
+
+  it('groups model duplicates with the copy they point at', () => {
+    const groups = buildDuplicateGroups(budgets, [copyOf('y', 'x'), copyOf('z', 'y')]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].fileIds.sort()).toEqual(['x', 'y', 'z']);
+    expect(groups[0].survivorId).toBe('x');
+  });
+});
+
+describe('survivors', () => {
+  const groups = buildDuplicateGroups(files, flagged);
+
+  it('moves the survivor with the strategy', () => {
+    expect(applyStrategy(groups, files, 'oldest')[0].survivorId).toBe('b');
+    expect(applyStrategy(groups, files, 'shortestName')[0].survivorId).toBe('a');
+    expect(applyStrategy(groups, files, 'preferredFolder', 'archive')[0].survivorId).toBe('b');
+    expect(applyStrategy(groups, files, 'preferredFolder', 'missing')[0].survivorId).toBe('a');
+  });
+
+  it('never lets the survivor into a selection', () => {
+    expect(Array.from(withoutSurvivors(['a', 'b', 'other'], groups))).toEqual(['b', 'other']);
+    expect(Array.from(selectNonSurvivors(new Set(['a', 'other']), groups)).sort()).toEqual(['b', 'c', 'other']);
+  });
+});
+
+describe('withoutRelatedCopies', () => {
+  it('never selects a copy together with the file it duplicates', () => {
+    const byId = new Map([copyOf('y', 'x'), copyOf('z', 'x')].map(c => [c.id, c]));
+
+    expect(withoutRelatedCopies(['x', 'y', 'z'], new Set(), byId)).toEqual(['x']);
+    expect(withoutRelatedCopies(['y', 'z'], new Set(['x']), byId)).toEqual([]);
+    expect(withoutRelatedCopies(['y', 'z'], new Set(), byId)).toEqual(['y', 'z']);
+  });
+});
+
+describe('chat-linked copies', () => {
+  const chatCopies = [copyOf('y', 'x'), copyOf('z', 'x')];
+
+  it('keeps the file the copies point at when everything is purged at once', () => {
+    const byId = new Map(chatCopies.map(c => [c.id, c]));
+
+    expect(withoutRelatedTargets(['x', 'y', 'z'], byId)).toEqual(['y', 'z']);
+  });
+
+  it('locks the kept file once groups are rebuilt, keeping survivors the user picked', () => {
+    const previous = buildDuplicateGroups(files, flagged).map(g => ({ ...g, survivorId: 'b' }));
+    const groups = carrySurvivors(buildDuplicateGroups([...files, ...budgets], [...flagged, ...chatCopies]), previous);
+
+    expect(groups.map(g => g.survivorId).sort()).toEqual(['b', 'x']);
+    expect(Array.from(withoutSurvivors(['x', 'y', 'z'], groups))).toEqual(['y', 'z']);
+  });
+});
@@ -0,0 +1,153 @@
+
+import { DriveFile, CleanupCandidate, DuplicateGroup, SurvivorStrategy } from "../types.ts";
+import { groupDuplicates } from "./localAnalyzer.ts";
+
+// Sort orders that put the copy to keep first.
+const STRATEGY_ORDER: Record<Exclude<SurvivorStrategy, 'preferredFolder'>, (a: DriveFile, b: DriveFile) => number> = {
+  newest: (a, b) => b.modifiedTime.localeCompare(a.modifiedTime),
+  oldest: (a, b) => a.modifiedTime.localeCompare(b.modifiedTime),
+  shortestName: (a, b) => a.name.length - b.name.length || a.name.localeCompare(b.name),
+};
+
+export const pickSurvivor = (members: DriveFile[], strategy: SurvivorStrategy, preferredFolderId?: string): string => {
+  if (strategy === 'preferredFolder') {
+    const inFolder = members.filter(m => preferredFolderId && m.parents?.includes(preferredFolderId));
+    // Groups without a copy in the preferred folder fall back to keeping the newest.
+    const pool = inFolder.length > 0 ? inFolder : members;
+    return [...pool].sort(STRATEGY_ORDER.newest)[0].id;
+  }
+  return [...members].sort(STRATEGY_ORDER[strategy])[0].id;
+};
+
+// Near duplicates, and duplicates the model or the chat flagged, point at the copy they resemble;
+// following those links gives the cluster. Its kept version is the one member that is not itself flagged.
+const relatedClusters = (byId: Map<string, DriveFile>, candidates: CleanupCandidate[]) => {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  const linked = candidates.filter(c => (c.category === 'duplicate' || c.category === 'near_duplicate')
+    && c.relatedId && byId.has(c.id) && byId.has(c.relatedId));
+  for (const c of linked) parent.set(find(c.id), find(c.relatedId!));
+
+  const clusters = new Map<string, DriveFile[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    clusters.set(root, [...(clusters.get(root) || []), byId.get(id)!]);
+  }
+  const flagged = new Set(linked.map(c => c.id));
+  return Array.from(clusters.values())
+    .filter(members => members.length > 1)
+    .map(members => {
+      const kept = members.filter(m => !flagged.has(m.id));
+      return { members, keptId: kept.length === 1 ? kept[0].id : undefined };
+    });
+};
+
+// Exact-copy groups where at least one copy was flagged as a duplicate, plus clusters linked by relatedId.
+// A cluster that includes an exact copy is folded into that copy's group, so no file is in two groups
+// and no group's survivor can be selected through another.
+export const buildDuplicateGroups = (
+  files: DriveFile[],
+  candidates: CleanupCandidate[],
+  strategy: SurvivorStrategy = 'newest'
+): DuplicateGroup[] => {
+  const byId = new Map(files.map(f => [f.id, f]));
+  const flagged = new Set(candidates.filter(c => c.category === 'duplicate').map(c => c.id));
+  const exact = groupDuplicates(files).filter(group => group.some(f => flagged.has(f.id)));
+  const groupOf = new Map<string, DriveFile[]>();
+  for (const group of exact) for (const f of group) groupOf.set(f.id, group);
+
+  const nearOnly: { members: DriveFile[]; keptId?: string }[] = [];
+  for (const cluster of relatedClusters(byId, candidates)) {
+    const overlapping = Array.from(new Set(cluster.members.map(m => groupOf.get(m.id)).filter((g): g is DriveFile[] => Boolean(g))));
+    if (overlapping.length === 0) {
+      nearOnly.push(cluster);
+      continue;
+    }
+    const [target, ...others] = overlapping;
+    for (const other of others) {
+      target.push(...other);
+      other.length = 0;
+    }
+    for (const m of cluster.members) if (!target.includes(m)) target.push(m);
+    for (const f of target) groupOf.set(f.id, target);
+  }
+
+  return [
+    ...exact.filter(group => group.length > 0).map(group => ({
+      key: group[0].md5Checksum || `${group[0].name}|${group[0].size}`,
+      fileIds: group.map(f => f.id),
+      survivorId: pickSurvivor(group, strategy),
+    })),
+    ...nearOnly.map(({ members, keptId }) => ({
+      key: `near:${keptId || members[0].id}`,
+      fileIds: members.map(f => f.id),
+      // The version the findings point at; near-duplicate similarity scores were measured against it.
+      survivorId: strategy === 'newest' && keptId ? keptId : pickSurvivor(members, strategy),
+    })),
+  ];
+};
+
+export const applyStrategy = (
+  groups: DuplicateGroup[],
+  files: DriveFile[],
+  strategy: SurvivorStrategy,
+  preferredFolderId?: string
+): DuplicateGroup[] => {
+  const byId = new Map(files.map(f => [f.id, f]));
+  return groups.map(group => {
+    const members = group.fileIds.map(id => byId.get(id)).filter((f): f is DriveFile => Boolean(f));
+    return members.length > 0 ? { ...group, survivorId: pickSurvivor(members, strategy, preferredFolderId) } : group;
+  });
+};
+
+// Hard safeguard: the survivor of every group is removed from a selection, whatever put it there.
+export const withoutSurvivors = (ids: Iterable<string>, groups: DuplicateGroup[]): Set<string> => {
+  const survivors = new Set(groups.map(g => g.survivorId));
+  return new Set(Array.from(ids).filter(id => !survivors.has(id)));
+};
+
+// Drops each duplicate whose related copy is selected too, or is being selected alongside it, so a
+// selection made outside the duplicate groups still leaves one copy of everything.
+export const withoutRelatedCopies = (
+  ids: string[],
+  selected: ReadonlySet<string>,
+  candidatesById: Map<string, CleanupCandidate>
+): string[] => {
+  const requested = new Set(ids);
+  return ids.filter(id => {
+    const relatedId = candidatesById.get(id)?.relatedId;
+    return !relatedId || !(selected.has(relatedId) || requested.has(relatedId));
+  });
+};
+
+// Hard safeguard for copies linked by relatedId that may not be in a group yet: a file another
+// requested copy points at is kept, so purging a whole chain still leaves its kept version.
+export const withoutRelatedTargets = (ids: string[], candidatesById: Map<string, CleanupCandidate>): string[] => {
+  const targets = new Set(ids.map(id => candidatesById.get(id)?.relatedId).filter((id): id is string => Boolean(id)));
+  return ids.filter(id => !targets.has(id));
+};
+
+// Rebuilt groups keep the survivor the user picked for any group that is still there.
+export const carrySurvivors = (groups: DuplicateGroup[], previous: DuplicateGroup[]): DuplicateGroup[] => {
+  const chosen = new Map(previous.map(g => [g.key, g.survivorId]));
+  return groups.map(group => {
+    const survivorId = chosen.get(group.key);
+    return survivorId && group.fileIds.includes(survivorId) ? { ...group, survivorId } : group;
+  });
+};
+
+// Selects every non-survivor copy in each group, leaving the rest of the selection untouched.
+export const selectNonSurvivors = (selected: ReadonlySet<string>, groups: DuplicateGroup[]): Set<string> => {
+  const next = new Set(selected);
+  for (const group of groups) {
+    for (const id of group.fileIds) {
+      if (id === group.survivorId) next.delete(id); else next.add(id);
+    }
+  }
+  return next;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { FakeDriveBackend } from "./fakeDriveBackend.ts";
+import { buildFilesQuery } from "./googleDriveService.ts";
+import { DEMO_DRIVE } from "../fixtures/demoDrive.ts";
+
+const listAll = async (backend: FakeDriveBackend, q: string, corpora?: 'user' | 'allDrives') => {
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await backend.listFiles({ q, pageSize: 100, pageToken, corpora });
+    ids.push(...page.files.map(f => f.id));
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return ids;
+};
+
+describe('FakeDriveBackend', () => {
+  it('pages listings at maxPageSize', async () => {
+    const backend = new FakeDriveBackend(DEMO_DRIVE, { maxPageSize: 3 });
+    const first = await backend.listFiles({ q: 'trashed = false', pageSize: 100 });
+
+    expect(first.files).toHaveLength(3);
+    expect(first.nextPageToken).toBe('3');
+    expect(await listAll(backend, 'trashed = false')).toHaveLength(DEMO_DRIVE.items.filter(i => !i.driveId).length);
+  });
+
+  it('understands the queries the service builds', async () => {
+    const backend = new FakeDriveBackend(DEMO_DRIVE);
+
+    expect(await listAll(backend, buildFilesQuery({ mimeType: 'video/' }), 'allDrives'))
+      .toEqual(['demo-file-3', 'demo-file-6']);
+    expect(await listAll(backend, buildFilesQuery({ folderId: 'demo-folder-proposals' })))
+      .toEqual(['demo-file-1', 'demo-file-8', 'demo-file-9']);
+    expect(await listAll(backend, buildFilesQuery({ modifiedBefore: '2021-02-15' }, ['demo-folder-archive', 'demo-folder-backups'])))
+      .toEqual(['demo-folder-backups', 'demo-file-4']);
+    await expect(backend.listFiles({ q: "name contains 'x'", pageSize: 10 })).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('keeps shared-drive permissions out of listings', async () => {
+    const backend = new FakeDriveBackend(DEMO_DRIVE);
+    const listed = await backend.listFiles({ q: 'trashed = false', pageSize: 100, corpora: 'allDrives' });
+
+    expect(listed.files.find(f => f.id === 'demo-file-6')!.permissions).toBeUndefined();
+    expect(listed.files.find(f => f.id === 'demo-file-5')!.permissions).toHaveLength(2);
+  });
+
+  it('records mutations in the change feed', async () => {
+    const backend = new FakeDriveBackend(DEMO_DRIVE);
+    const start = await backend.getStartPageToken();
+    await backend.trash('demo-file-1');
+    await backend.move('demo-file-8', ['demo-root'], ['demo-folder-proposals']);
+
+    const feed = await backend.listChanges({ pageToken: start, pageSize: 100 });
+    expect(feed.changes.map(c => c.fileId)).toEqual(['demo-file-1', 'demo-file-8']);
+    expect(feed.newStartPageToken).toBe('2');
+  });
+
+  it('fails like Drive', async () => {
+    const backend = new FakeDriveBackend(DEMO_DRIVE, { failingIds: ['demo-file-1'] });
+
+    await expect(backend.trash('missing')).rejects.toMatchObject({ status: 404 });
+    await expect(backend.trash('demo-file-1')).rejects.toMatchObject({ status: 403 });
+    await expect(backend.deletePermission('demo-file-5', 'demo-perm-owner')).rejects.toMatchObject({ status: 403 });
+
+    const limited = new FakeDriveBackend(DEMO_DRIVE, { rateLimitEvery: 2 });
+    await limited.about();
+    await expect(limited.about()).rejects.toMatchObject({ status: 403 });
+  });
+});
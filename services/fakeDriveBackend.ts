@@ -0,0 +1,276 @@
+
+import { DriveBackend, DriveFile, DrivePermission, DriveChange, DriveUser, FileListPage, FileListParams, ChangeListPage, SharedDrive, StorageQuota } from "../types.ts";
+import { storageBytes } from "./storageQuota.ts";
+import { FOLDER_MIME_TYPE } from "./folderTree.ts";
+
+export interface FakeDriveSeed {
+  rootFolderId: string;
+  // Folders and files together, as files.list would return them.
+  items: DriveFile[];
+  quota: StorageQuota;
+  user: DriveUser;
+  // Items with a matching `driveId` live in these; their root folder ID is the drive ID.
+  drives?: SharedDrive[];
+}
+
+export interface FakeDriveOptions {
+  // Caps every files.list / changes.list page so callers have to follow nextPageToken.
+  maxPageSize?: number;
+  latencyMs?: number;
+  // Every Nth request is rejected with a 403 rateLimitExceeded.
+  rateLimitEvery?: number;
+  // Chance (0-1) that any request fails with a 500 backendError.
+  failureRate?: number;
+  // Mutations on these files always fail with a non-retryable 403.
+  failingIds?: string[];
+  random?: () => number;
+}
+
+type FakeItem = DriveFile & { trashed: boolean };
+
+// Same shape gapi rejects with, so the service's retry and 404 handling apply unchanged.
+export const fakeDriveError = (status: number, reason: string, message: string) => ({
+  status,
+  result: { error: { code: status, message, errors: [{ reason, message }] } }
+});
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const unquote = (value: string) => value.replace(/\\(.)/g, '$1');
+
+const compileClause = (clause: string): ((item: FakeItem) => boolean) => {
+  let m: RegExpMatchArray | null;
+  if (clause === 'trashed = false') return (item: FakeItem) => !item.trashed;
+  if ((m = clause.match(/^'((?:[^'\\]|\\.)*)' in parents$/))) {
+    const id = unquote(m[1]);
+    return (item: FakeItem) => Boolean(item.parents?.includes(id));
+  }
+  // Only a list of parents is ever grouped: "('a' in parents or 'b' in parents)".
+  if ((m = clause.match(/^\((.+)\)$/))) {
+    const parents = m[1].split(' or ').map(part => {
+      if (!/ in parents$/.test(part)) throw fakeDriveError(400, 'invalid', `Invalid Value: unsupported query clause "${clause}"`);
+      return compileClause(part);
+    });
+    return (item: FakeItem) => parents.some(test => test(item));
+  }
+  if ((m = clause.match(/^mimeType (=|contains) '((?:[^'\\]|\\.)*)'$/))) {
+    const [, op, value] = m;
+    const mime = unquote(value);
+    return (item: FakeItem) => op === '=' ? item.mimeType === mime : item.mimeType.includes(mime);
+  }
+  if ((m = clause.match(/^modifiedTime (>=|<) '([^']+)'$/))) {
+    const [, op, value] = m;
+    const bound = new Date(value).getTime();
+    return (item: FakeItem) => {
+      const t = new Date(item.modifiedTime).getTime();
+      return op === '>=' ? t >= bound : t < bound;
+    };
+  }
+  throw fakeDriveError(400, 'invalid', `Invalid Value: unsupported query clause "${clause}"`);
+};
+
+// Understands exactly the clauses buildFilesQuery produces; anything else is a 400 like Drive's.
+const compileQuery = (q: string): ((item: FakeItem) => boolean) => {
+  const tests = q.split(' and ').map(compileClause);
+  return (item) => tests.every(test => test(item));
+};
+
+// In-memory Drive for the demo and offline runs. Page tokens are plain offsets and the change
+// feed is an append-only log, so the incremental scan works against it too.
+export class FakeDriveBackend implements DriveBackend {
+  private items = new Map<string, FakeItem>();
+  private changeLog: DriveChange[] = [];
+  private requests = 0;
+  private createdFolders = 0;
+
+  constructor(private seed: FakeDriveSeed, private options: FakeDriveOptions = {}) {
+    for (const item of seed.items) this.items.set(item.id, { ...item, trashed: false });
+  }
+
+  // Latency, rate limiting and random failures are applied before every call.
+  private async request() {
+    const { latencyMs = 0, rateLimitEvery, failureRate = 0, random = Math.random } = this.options;
+    this.requests++;
+    if (latencyMs > 0) await sleep(latencyMs);
+    if (rateLimitEvery && this.requests % rateLimitEvery === 0) {
+      throw fakeDriveError(403, 'rateLimitExceeded', 'Rate Limit Exceeded');
+    }
+    if (failureRate > 0 && random() < failureRate) {
+      throw fakeDriveError(500, 'backendError', 'Backend Error');
+    }
+  }
+
+  private mutable(fileId: string): FakeItem {
+    const item = this.items.get(fileId);
+    if (!item) throw fakeDriveError(404, 'notFound', `File not found: ${fileId}.`);
+    if (this.options.failingIds?.includes(fileId)) {
+      throw fakeDriveError(403, 'insufficientFilePermissions', 'The user does not have sufficient permissions for this file.');
+    }
+    return item;
+  }
+
+  private recordChange(item: FakeItem) {
+    item.modifiedTime = new Date().toISOString();
+    this.changeLog.push({ fileId: item.id, removed: false, file: { ...item } });
+  }
+
+  private page<T>(list: T[], pageSize: number, pageToken?: string) {
+    const size = Math.min(pageSize, this.options.maxPageSize || pageSize);
+    const offset = pageToken ? parseInt(pageToken) : 0;
+    if (isNaN(offset)) throw fakeDriveError(400, 'invalid', 'Invalid Value: pageToken');
+    const next = offset + size;
+    return { slice: list.slice(offset, next), nextPageToken: next < list.length ? String(next) : undefined };
+  }
+
+  private strip(item: FakeItem): DriveFile {
+    const { trashed, ...file } = item;
+    return file;
+  }
+
+  async listFiles(params: FileListParams): Promise<FileListPage> {
+    await this.request();
+    const matches = compileQuery(params.q);
+    const corpora = params.corpora || 'user';
+    const inCorpus = (item: FakeItem) =>
+      corpora === 'allDrives' || (corpora === 'drive' ? item.driveId === params.driveId : !item.driveId);
+    const all = Array.from(this.items.values()).filter(item => inCorpus(item) && matches(item));
+    const { slice, nextPageToken } = this.page(all, params.pageSize, params.pageToken);
+    return { files: slice.map(item => this.listed(item)), nextPageToken };
+  }
+
+  // Like Drive, listings carry no permissions for shared-drive items; only permissions.list has them.
+  private listed(item: FakeItem): DriveFile {
+    const file = this.strip(item);
+    if (file.driveId) delete file.permissions;
+    return file;
+  }
+
+  async listDrives(pageToken?: string): Promise<{ drives: SharedDrive[]; nextPageToken?: string }> {
+    await this.request();
+    const { slice, nextPageToken } = this.page(this.seed.drives || [], 100, pageToken);
+    return { drives: slice, nextPageToken };
+  }
+
+  async getFile(fileId: string): Promise<DriveFile> {
+    await this.request();
+    const id = fileId === 'root' ? this.seed.rootFolderId : fileId;
+    const item = this.items.get(id);
+    if (item) return this.strip(item);
+    const rootFolder = (name: string, driveId?: string): DriveFile =>
+      ({ id, name, mimeType: 'application/vnd.google-apps.folder', modifiedTime: new Date(0).toISOString(), driveId });
+    if (id === this.seed.rootFolderId) return rootFolder('My Drive');
+    const drive = this.seed.drives?.find(d => d.id === id);
+    if (drive) return rootFolder(drive.name, drive.id);
+    throw fakeDriveError(404, 'notFound', `File not found: ${fileId}.`);
+  }
+
+  async trash(fileId: string): Promise<void> {
+    await this.request();
+    const item = this.mutable(fileId);
+    item.trashed = true;
+    this.recordChange(item);
+  }
+
+  async restore(fileId: string): Promise<void> {
+    await this.request();
+    const item = this.mutable(fileId);
+    item.trashed = false;
+    this.recordChange(item);
+  }
+
+  async move(fileId: string, addParents: string[], removeParents: string[]): Promise<void> {
+    await this.request();
+    const item = this.mutable(fileId);
+    for (const id of addParents) {
+      if (id !== this.seed.rootFolderId && !this.items.has(id)) throw fakeDriveError(404, 'notFound', `File not found: ${id}.`);
+    }
+    item.parents = [...(item.parents || []).filter(p => !removeParents.includes(p)), ...addParents];
+    this.recordChange(item);
+  }
+
+  async findFolder(name: string, parentId: string): Promise<DriveFile | null> {
+    await this.request();
+    const match = Array.from(this.items.values()).find(item =>
+      !item.trashed && item.mimeType === FOLDER_MIME_TYPE && item.name === name && item.parents?.includes(parentId));
+    return match ? this.strip(match) : null;
+  }
+
+  async createFolder(name: string, parentId: string): Promise<DriveFile> {
+    await this.request();
+    const item: FakeItem = {
+      id: `fake-folder-${++this.createdFolders}`,
+      name,
+      mimeType: FOLDER_MIME_TYPE,
+      modifiedTime: new Date().toISOString(),
+      parents: [parentId],
+      trashed: false
+    };
+    this.items.set(item.id, item);
+    this.recordChange(item);
+    return this.strip(item);
+  }
+
+  // The seed has no real content, so downloads are a short text stand-in for each file.
+  async download(fileId: string): Promise<Blob> {
+    await this.request();
+    const item = this.items.get(fileId);
+    if (!item) throw fakeDriveError(404, 'notFound', `File not found: ${fileId}.`);
+    if (item.mimeType.startsWith('application/vnd.google-apps.')) {
+      throw fakeDriveError(403, 'fileNotDownloadable', 'Only files with binary content can be downloaded. Use Export with Docs Editors files.');
+    }
+    return new Blob([`Demo content of ${item.name}\n`], { type: item.mimeType });
+  }
+
+  async exportFile(fileId: string, mimeType: string): Promise<Blob> {
+    await this.request();
+    const item = this.items.get(fileId);
+    if (!item) throw fakeDriveError(404, 'notFound', `File not found: ${fileId}.`);
+    return new Blob([`Demo export of ${item.name}\n`], { type: mimeType });
+  }
+
+  async listPermissions(fileId: string): Promise<DrivePermission[]> {
+    await this.request();
+    const item = this.items.get(fileId);
+    if (!item) throw fakeDriveError(404, 'notFound', `File not found: ${fileId}.`);
+    return item.permissions || [];
+  }
+
+  async deletePermission(fileId: string, permissionId: string): Promise<void> {
+    await this.request();
+    const item = this.mutable(fileId);
+    const permission = item.permissions?.find(p => p.id === permissionId);
+    if (!permission) throw fakeDriveError(404, 'notFound', `Permission not found: ${permissionId}.`);
+    if (permission.role === 'owner') throw fakeDriveError(403, 'cannotRemoveOwner', 'The owner of a file cannot be removed.');
+    item.permissions = item.permissions!.filter(p => p.id !== permissionId);
+    item.permissionIds = item.permissions.map(p => p.id);
+    item.shared = item.permissions.some(p => p.role !== 'owner');
+    this.recordChange(item);
+  }
+
+  // Trashed files still count against the quota, they just move into the Trash bucket.
+  async about(): Promise<StorageQuota> {
+    await this.request();
+    const trashedBytes = Array.from(this.items.values()).filter(i => i.trashed).reduce((sum, i) => sum + storageBytes(i), 0);
+    return { ...this.seed.quota, usageInDriveTrash: this.seed.quota.usageInDriveTrash + trashedBytes };
+  }
+
+  async currentUser(): Promise<DriveUser> {
+    await this.request();
+    return this.seed.user;
+  }
+
+  async getStartPageToken(): Promise<string> {
+    await this.request();
+    return String(this.changeLog.length);
+  }
+
+  async listChanges(params: { pageToken: string; pageSize: number }): Promise<ChangeListPage> {
+    await this.request();
+    const start = parseInt(params.pageToken);
+    if (isNaN(start) || start > this.changeLog.length) throw fakeDriveError(400, 'invalid', 'Invalid Value: pageToken');
+    const { slice, nextPageToken } = this.page(this.changeLog.slice(start), params.pageSize);
+    return nextPageToken
+      ? { changes: slice, nextPageToken: String(start + parseInt(nextPageToken)) }
+      : { changes: slice, newStartPageToken: String(this.changeLog.length) };
+  }
+}
@@ -0,0 +1,106 @@
+
+import { DriveFile, FolderNode } from "../types.ts";
+import { storageBytes } from "./storageQuota.ts";
+
+export const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// Files that report no parent at all (typically "Shared with me" items) are collected here.
+export const ORPHANS_NODE_ID = '__orphans__';
+
+export const isFolder = (f: DriveFile) => f.mimeType === FOLDER_MIME_TYPE;
+
+export interface FolderTree {
+  roots: FolderNode[];
+  byId: Map<string, FolderNode>;
+}
+
+
+// Builds the folder hierarchy from a flat listing. Parents that were not part of the listing
+// become synthetic roots so nothing is lost; `rootFolderId` lets the My Drive root get its name.
+export const buildFolderTree = (items: DriveFile[], rootFolderId?: string): FolderTree => {
+  const byId = new Map<string, FolderNode>();
+  const syntheticName = (id: string) =>
+    id === ORPHANS_NODE_ID ? 'No parent folder' : id === rootFolderId ? 'My Drive' : 'Unlisted folder';
+  const node = (id: string, name: string, parentId?: string): FolderNode => {
+    let existing = byId.get(id);
+    if (!existing) {
+      existing = { id, name, parentId, children: [], fileIds: [], directBytes: 0, totalBytes: 0, totalFiles: 0 };
+      byId.set(id, existing);
+    }
+    return existing;
+  };
+
+  for (const folder of items.filter(isFolder)) {
+    node(folder.id, folder.name, folder.parents?.[0]);
+  }
+
+  for (const file of items) {
+    if (isFolder(file)) continue;
+    const parentId = file.parents?.[0] || ORPHANS_NODE_ID;
+    const parent = node(parentId, syntheticName(parentId));
+    parent.fileIds.push(file.id);
+    parent.directBytes += storageBytes(file);
+  }
+
+  // Folders whose parent was never listed get a synthetic parent as well.
+  for (const n of Array.from(byId.values())) {
+    if (n.parentId && !byId.has(n.parentId)) {
+      node(n.parentId, syntheticName(n.parentId));
+    }
+  }
+
+  const roots: FolderNode[] = [];
+  for (const n of byId.values()) {
+    const parent = n.parentId ? byId.get(n.parentId) : undefined;
+    if (parent && parent !== n) parent.children.push(n); else roots.push(n);
+  }
+
+  // Post-order accumulation; the visited set guards against cyclic parent data.
+  const visited = new Set<string>();
+  const accumulate = (n: FolderNode) => {
+    if (visited.has(n.id)) return;
+    visited.add(n.id);
+    n.totalBytes = n.directBytes;
+    n.totalFiles = n.fileIds.length;
+    for (const child of n.children) {
+      accumulate(child);
+      n.totalBytes += child.totalBytes;
+      n.totalFiles += child.totalFiles;
+    }
+    n.children.sort((a, b) => b.totalBytes - a.totalBytes);
+  };
+  roots.forEach(accumulate);
+  roots.sort((a, b) => b.totalBytes - a.totalBytes);
+
+  return { roots, byId };
+};
+
+export const collectSubtreeFileIds = (node: FolderNode): string[] => {
+  const ids: string[] = [];
+  const stack = [node];
+  const seen = new Set<string>();
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (seen.has(current.id)) continue;
+    seen.add(current.id);
+    ids.push(...current.fileIds);
+    stack.push(...current.children);
+  }
+  return ids;
+};
+
+// Ancestor chain from a root down to the given folder, for breadcrumbs.
+export const folderPath = (tree: FolderTree, folderId: string): FolderNode[] => {
+  const path: FolderNode[] = [];
+  const seen = new Set<string>();
+  let current = tree.byId.get(folderId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? tree.byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+export const folderParentMap = (tree: FolderTree): Map<string, string | undefined> =>
+  new Map(Array.from(tree.byId.values()).map(n => [n.id, n.parentId]));
@@ -0,0 +1,152 @@
+
+import { DriveBackend, DriveFile, DrivePermission, DriveUser, FileListPage, FileListParams, ChangeListPage, SharedDrive, StorageQuota } from "../types.ts";
+import { parseStorageQuota } from "./storageQuota.ts";
+import { FOLDER_MIME_TYPE } from "./folderTree.ts";
+
+const PERMISSION_FIELDS = 'id, type, role, emailAddress, domain, allowFileDiscovery';
+const FILE_FIELDS = `id, name, size, quotaBytesUsed, mimeType, modifiedTime, md5Checksum, webViewLink, thumbnailLink, parents, starred, ownedByMe, shared, owners(displayName, emailAddress), permissionIds, permissions(${PERMISSION_FIELDS}), driveId, capabilities(canTrash, canShare)`;
+const FOLDER_FIELDS = 'id, name, mimeType, modifiedTime, parents';
+const DRIVE_API = 'https://www.googleapis.com/drive/v3';
+
+const escapeQueryValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+
+// Thin wrapper over gapi.client.drive; errors are passed through untouched.
+export class GapiDriveBackend implements DriveBackend {
+  constructor(private gapi: any) {}
+
+  private get drive() {
+    return this.gapi.client.drive;
+  }
+
+  // gapi.client mangles binary bodies, so file content is fetched directly. Failures are reshaped
+  // like gapi's so callers handle both alike.
+  private async fetchContent(path: string): Promise<Blob> {
+    const token = this.gapi.client.getToken()?.access_token;
+    const response = await fetch(`${DRIVE_API}${path}`, { headers: { Authorization: `Bearer ${token}` } });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({ error: { message: response.statusText } }));
+      throw { status: response.status, result };
+    }
+    return response.blob();
+  }
+
+  // My Drive listings leave shared-drive items out; the other corpora need them included.
+  async listFiles(params: FileListParams): Promise<FileListPage> {
+    const corpora = params.corpora || 'user';
+    const response = await this.drive.files.list({
+      ...params,
+      corpora,
+      supportsAllDrives: true,
+      includeItemsFromAllDrives: corpora !== 'user',
+      fields: `nextPageToken, files(${FILE_FIELDS})`
+    });
+    return { files: response.result.files || [], nextPageToken: response.result.nextPageToken };
+  }
+
+  async listDrives(pageToken?: string): Promise<{ drives: SharedDrive[]; nextPageToken?: string }> {
+    const response = await this.drive.drives.list({ pageSize: 100, pageToken, fields: 'nextPageToken, drives(id, name)' });
+    return { drives: response.result.drives || [], nextPageToken: response.result.nextPageToken };
+  }
+
+  // Only used to resolve folders and the My Drive root, so the narrower field set is enough.
+  async getFile(fileId: string): Promise<DriveFile> {
+    const response = await this.drive.files.get({ fileId, fields: FOLDER_FIELDS, supportsAllDrives: true });
+    return response.result;
+  }
+
+  async trash(fileId: string): Promise<void> {
+    await this.drive.files.update({ fileId, trashed: true, supportsAllDrives: true });
+  }
+
+  async restore(fileId: string): Promise<void> {
+    await this.drive.files.update({ fileId, trashed: false, supportsAllDrives: true });
+  }
+
+  async move(fileId: string, addParents: string[], removeParents: string[]): Promise<void> {
+    await this.drive.files.update({
+      fileId,
+      addParents: addParents.join(','),
+      removeParents: removeParents.join(','),
+      supportsAllDrives: true
+    });
+  }
+
+  async findFolder(name: string, parentId: string): Promise<DriveFile | null> {
+    const response = await this.drive.files.list({
+      q: `name = '${escapeQueryValue(name)}' and mimeType = '${FOLDER_MIME_TYPE}' and '${escapeQueryValue(parentId)}' in parents and trashed = false`,
+      pageSize: 1,
+      supportsAllDrives: true,
+      includeItemsFromAllDrives: true,
+      fields: `files(${FOLDER_FIELDS})`
+    });
+    return response.result.files?.[0] || null;
+  }
+
+  async createFolder(name: string, parentId: string): Promise<DriveFile> {
+    const response = await this.drive.files.create({
+      resource: { name, mimeType: FOLDER_MIME_TYPE, parents: [parentId] },
+      supportsAllDrives: true,
+      fields: FOLDER_FIELDS
+    });
+    return response.result;
+  }
+
+  download(fileId: string): Promise<Blob> {
+    return this.fetchContent(`/files/${encodeURIComponent(fileId)}?alt=media&supportsAllDrives=true`);
+  }
+
+  exportFile(fileId: string, mimeType: string): Promise<Blob> {
+    return this.fetchContent(`/files/${encodeURIComponent(fileId)}/export?mimeType=${encodeURIComponent(mimeType)}`);
+  }
+
+  async listPermissions(fileId: string): Promise<DrivePermission[]> {
+    const permissions: DrivePermission[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await this.drive.permissions.list({
+        fileId,
+        pageSize: 100,
+        pageToken,
+        supportsAllDrives: true,
+        fields: `nextPageToken, permissions(${PERMISSION_FIELDS})`
+      });
+      permissions.push(...(response.result.permissions || []));
+      pageToken = response.result.nextPageToken;
+    } while (pageToken);
+    return permissions;
+  }
+
+  async deletePermission(fileId: string, permissionId: string): Promise<void> {
+    await this.drive.permissions.delete({ fileId, permissionId, supportsAllDrives: true });
+  }
+
+  async about(): Promise<StorageQuota> {
+    const response = await this.drive.about.get({ fields: 'storageQuota' });
+    return parseStorageQuota(response.result.storageQuota || {});
+  }
+
+  async currentUser(): Promise<DriveUser> {
+    const response = await this.drive.about.get({ fields: 'user(displayName, emailAddress)' });
+    return response.result.user || {};
+  }
+
+  async getStartPageToken(): Promise<string> {
+    const response = await this.drive.changes.getStartPageToken({ supportsAllDrives: true });
+    return response.result.startPageToken;
+  }
+
+  async listChanges(params: { pageToken: string; pageSize: number }): Promise<ChangeListPage> {
+    const response = await this.drive.changes.list({
+      ...params,
+      includeRemoved: true,
+      spaces: 'drive',
+      supportsAllDrives: true,
+      fields: `nextPageToken, newStartPageToken, changes(fileId, removed, file(${FILE_FIELDS}, trashed))`
+    });
+    return {
+      changes: response.result.changes || [],
+      nextPageToken: response.result.nextPageToken,
+      newStartPageToken: response.result.newStartPageToken
+    };
+  }
+}
@@ -1,33 +1,29 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { DriveFile, AnalysisResult } from "../types.ts";
+import { DriveFile, AnalysisResult, AnalysisProvider, ProviderSettings, CLEANUP_CATEGORIES } from "../types.ts";
+import { analyzeInChunks } from "./chunking.ts";
+import { parseModelResponse } from "./analysisValidator.ts";
+import { buildAnalysisPrompt, toAnalysisMetadata } from "./analysisPrompt.ts";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-3-pro-preview";
 
-// Initialize the Google GenAI client using the API key from environment variables.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The browser SDK throws when constructed without a key, so clients are created on first use.
+const clients = new Map<string, GoogleGenAI>();
 
-export const analyzeFilesWithGemini = async (files: DriveFile[]): Promise<AnalysisResult> => {
-  // We only send relevant metadata to conserve tokens and focus the model on storage patterns.
-  const fileMetadata = files.map(f => ({
-    id: f.id,
-    name: f.name,
-    size: f.size,
-    modifiedTime: f.modifiedTime,
-    md5Checksum: f.md5Checksum
-  }));
+export const getGeminiClient = (apiKey: string): GoogleGenAI => {
+  let client = clients.get(apiKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey });
+    clients.set(apiKey, client);
+  }
+  return client;
+};
 
-  const prompt = `Analyze this list of Google Drive files and identify candidates for deletion. 
-  Focus on:
-  1. DUPLICATES: Files with identical names and sizes (or checksums if available).
-  2. LARGE FILES: Files significantly larger than average (e.g., > 100MB).
-  3. OLD FILES: Files not modified in over 2 years.
-  
-  Provide a JSON response containing the file IDs, the reason for flagging, the category, and a confidence score (0-1).
-  Also include a short summary of the findings.`;
+const analyzeChunk = async (files: DriveFile[], apiKey: string, model: string, prompt: string): Promise<AnalysisResult> => {
+  const fileMetadata = files.map(toAnalysisMetadata);
 
   try {
-    // Using gemini-3-pro-preview for complex reasoning tasks involving metadata analysis.
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
+    const response = await getGeminiClient(apiKey).models.generateContent({
+      model,
       contents: [
         {
           parts: [
@@ -48,12 +44,17 @@ export const analyzeFilesWithGemini = async (files: DriveFile[]): Promise<Analys
                 properties: {
                   id: { type: Type.STRING },
                   reason: { type: Type.STRING },
-                  // Note: Removed 'enum' as it is not explicitly supported in the provided Type definitions.
-                  category: { type: Type.STRING, description: "Category of cleanup: duplicate, old, or large" },
-                  confidence: { type: Type.NUMBER }
+                  category: {
+                    type: Type.STRING,
+                    format: "enum",
+                    enum: CLEANUP_CATEGORIES,
+                    description: "Category of cleanup: duplicate, near_duplicate, old, or large"
+                  },
+                  confidence: { type: Type.NUMBER },
+                  relatedId: { type: Type.STRING, description: "For duplicates: the ID of the copy to keep" }
                 },
                 required: ['id', 'reason', 'category', 'confidence'],
-                propertyOrdering: ["id", "reason", "category", "confidence"]
+                propertyOrdering: ["id", "reason", "category", "confidence", "relatedId"]
               }
             },
             summary: { type: Type.STRING }
@@ -65,19 +66,25 @@ export const analyzeFilesWithGemini = async (files: DriveFile[]): Promise<Analys
     });
 
     // Extract text output from GenerateContentResponse using the text property (getter).
-    const text = response.text;
-    if (!text) {
-      return { candidates: [], summary: "No analysis generated by the model." };
-    }
-    
-    try {
-      return JSON.parse(text) as AnalysisResult;
-    } catch (parseError) {
-      console.error("Failed to parse Gemini JSON output:", parseError);
-      return { candidates: [], summary: "Received invalid data format from analysis agent." };
-    }
+    return parseModelResponse(response.text, files);
   } catch (error) {
     console.error("Gemini Analysis Error:", error);
     throw error;
   }
 };
+
+// A key entered in Settings wins over the one baked in at build time.
+export const createGeminiProvider = (settings: ProviderSettings): AnalysisProvider => {
+  const apiKey = settings.apiKey || process.env.API_KEY || '';
+  const model = settings.model || DEFAULT_GEMINI_MODEL;
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    model,
+    isConfigured: () => Boolean(apiKey),
+    analyze: (files, options) => {
+      const prompt = buildAnalysisPrompt(options?.rules);
+      return analyzeInChunks(files, (chunk) => analyzeChunk(chunk, apiKey, model, prompt), options);
+    },
+  };
+};
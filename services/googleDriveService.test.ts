@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GoogleDriveService } from "./googleDriveService.ts";
+import { purgeLogFor } from "./purgeLogService.ts";
+import { FakeDriveBackend, FakeDriveOptions } from "./fakeDriveBackend.ts";
+import { DEMO_DRIVE } from "../fixtures/demoDrive.ts";
+import { DriveFile, ScanFilters } from "../types.ts";
+
+const file = (id: string): DriveFile => DEMO_DRIVE.items.find(item => item.id === id)!;
+
+// A signed-in service over the demo Drive; `isDemo` decides whether it behaves like the demo or a real account.
+const connect = (options: FakeDriveOptions = {}, isDemo = false) => {
+  const backend = new FakeDriveBackend(DEMO_DRIVE, options);
+  const service = new GoogleDriveService();
+  service.useBackend(backend, isDemo);
+  return { service, backend };
+};
+
+const fast = { baseDelayMs: 1 };
+
+describe('purgeFiles', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('trashes the selection and logs every file under one run', async () => {
+    const { service, backend } = connect();
+    const results = await service.purgeFiles([file('demo-file-1'), file('demo-file-3')], fast);
+
+    expect(results.map(r => r.status)).toEqual(['succeeded', 'succeeded']);
+    const listed = await backend.listFiles({ q: 'trashed = false', pageSize: 100 });
+    expect(listed.files.map(f => f.id)).not.toContain('demo-file-1');
+    const runs = service.purgeLog().getRuns();
+    expect(runs).toHaveLength(1);
+    expect(runs[0].entries.map(e => e.fileId).sort()).toEqual(['demo-file-1', 'demo-file-3']);
+  });
+
+  it('logs each file as soon as it is trashed, even if the run never finishes', async () => {
+    const { service, backend } = connect();
+    // The last trash never returns, as if the tab were closed while it was in flight.
+    const trash = backend.trash.bind(backend);
+    vi.spyOn(backend, 'trash').mockImplementation(id => id === 'demo-file-4' ? new Promise(() => {}) : trash(id));
+    let reachedLast!: () => void;
+    const twoTrashed = new Promise<void>(resolve => { reachedLast = resolve; });
+
+    void service.purgeFiles([file('demo-file-1'), file('demo-file-3'), file('demo-file-4')], {
+      ...fast,
+      concurrency: 1,
+      onProgress: p => { if (p.succeeded === 2) reachedLast(); },
+    });
+    await twoTrashed;
+
+    const entries = service.purgeLog().getRuns().flatMap(r => r.entries.map(e => e.fileId));
+    expect(entries).toEqual(['demo-file-1', 'demo-file-3']);
+  });
+
+  it('does not write the purge log for the demo Drive', async () => {
+    const { service } = connect({}, true);
+    const results = await service.purgeFiles([file('demo-file-1')], { ...fast, actions: { 'demo-file-1': 'archive' } });
+
+    expect(results[0].status).toBe('succeeded');
+    expect(service.purgeLog().getRuns()).toEqual([]);
+  });
+
+  it('skips protected files without calling Drive', async () => {
+    const { service, backend } = connect();
+    const results = await service.purgeFiles([file('demo-file-5'), file('demo-file-7')], fast);
+
+    expect(results.map(r => r.status)).toEqual(['skipped', 'skipped']);
+    const listed = await backend.listFiles({ q: 'trashed = false', pageSize: 100, corpora: 'allDrives' });
+    expect(listed.files.map(f => f.id)).toEqual(expect.arrayContaining(['demo-file-5', 'demo-file-7']));
+  });
+
+  it('retries rate limits and reports permanent failures', async () => {
+    const { service } = connect({ rateLimitEvery: 2, failingIds: ['demo-file-4'] });
+    const results = await service.purgeFiles([file('demo-file-1'), file('demo-file-3'), file('demo-file-4')], fast);
+    const byId = new Map(results.map(r => [r.id, r]));
+
+    expect(byId.get('demo-file-1')!.status).toBe('succeeded');
+    expect(byId.get('demo-file-3')!.status).toBe('succeeded');
+    expect(results.some(r => r.attempts > 1)).toBe(true);
+    expect(byId.get('demo-file-4')).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+
+  it('changes nothing in a dry run', async () => {
+    const { service, backend } = connect();
+    const results = await service.purgeFiles([file('demo-file-1')], { ...fast, dryRun: true });
+
+    expect(results[0].status).toBe('succeeded');
+    expect((await backend.getStartPageToken())).toBe('0');
+    expect(service.purgeLog().getRuns()).toEqual([]);
+  });
+
+  it('never trashes a download that was not saved', async () => {
+    const { service, backend } = connect();
+    const actions = { 'demo-file-1': 'download' as const };
+
+    const unsaved = await service.purgeFiles([file('demo-file-1')], { ...fast, actions });
+    expect(unsaved[0].status).toBe('failed');
+
+    const failing = await service.purgeFiles([file('demo-file-1')], { ...fast, actions, onBundle: () => { throw new Error('disk full'); } });
+    expect(failing[0]).toMatchObject({ status: 'failed', error: expect.stringContaining('disk full') });
+
+    const tooLarge = await service.purgeFiles([file('demo-file-1')], { ...fast, actions, onBundle: () => {}, maxBundleBytes: 10 });
+    expect(tooLarge[0].status).toBe('failed');
+
+    expect((await backend.getFile('demo-file-1')).id).toBe('demo-file-1');
+    const listed = await backend.listFiles({ q: 'trashed = false', pageSize: 100 });
+    expect(listed.files.map(f => f.id)).toContain('demo-file-1');
+  });
+
+  it('trashes downloads once the bundle is saved', async () => {
+    const { service, backend } = connect();
+    let bundled: string[] = [];
+    const results = await service.purgeFiles([file('demo-file-1')], {
+      ...fast,
+      actions: { 'demo-file-1': 'download' },
+      onBundle: (downloads) => { bundled = downloads.map(d => d.file.id); },
+    });
+
+    expect(bundled).toEqual(['demo-file-1']);
+    expect(results[0]).toMatchObject({ status: 'succeeded', action: 'download' });
+    const listed = await backend.listFiles({ q: 'trashed = false', pageSize: 100 });
+    expect(listed.files.map(f => f.id)).not.toContain('demo-file-1');
+  });
+
+  it('restricts sharing to internal domains', async () => {
+    const { service, backend } = connect();
+    const results = await service.purgeFiles([file('demo-file-9')], {
+      ...fast,
+      actions: { 'demo-file-9': 'restrict' },
+      internalDomains: ['example.com'],
+    });
+
+    expect(results[0].status).toBe('succeeded');
+    const remaining = await backend.listPermissions('demo-file-9');
+    expect(remaining.map(p => p.id)).toEqual(['demo-perm-owner', 'demo-perm-colleague']);
+    expect(service.purgeLog().getRuns()).toEqual([]);
+  });
+});
+
+describe('restoreFiles', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('moves archived files back to their folders and untrashes the rest', async () => {
+    const { service, backend } = connect();
+    await service.purgeFiles([file('demo-file-1'), file('demo-file-3')], { ...fast, actions: { 'demo-file-3': 'archive' } });
+    expect((await backend.getFile('demo-file-3')).parents).not.toContain('demo-folder-archive');
+
+    const results = await service.restoreFiles(['demo-file-1', 'demo-file-3'], fast);
+
+    expect(results.map(r => r.status)).toEqual(['succeeded', 'succeeded']);
+    expect((await backend.getFile('demo-file-3')).parents).toEqual(['demo-folder-archive']);
+    const listed = await backend.listFiles({ q: 'trashed = false', pageSize: 100 });
+    expect(listed.files.map(f => f.id)).toContain('demo-file-1');
+    expect(service.purgeLog().getRuns()[0].entries.every(e => e.restoredAt)).toBe(true);
+  });
+});
+
+describe('listFiles', () => {
+  it('refuses a shared-drive scope with no drive picked', async () => {
+    const { service } = connect();
+
+    await expect(service.listFiles({ filters: { corpus: 'drives', driveIds: [] } })).rejects.toThrow('Pick at least one shared drive');
+    expect((await service.listFiles({ filters: { corpus: 'drives', driveIds: ['demo-drive-marketing'] } })).map(f => f.id))
+      .toEqual(['demo-file-6', 'demo-file-7']);
+  });
+
+  it('scans the whole subtree of the scope folder up to the end of the last day', async () => {
+    const { service } = connect({ maxPageSize: 2 });
+    const ids = async (filters: ScanFilters) => (await service.listFiles({ filters })).map(f => f.id).sort();
+
+    expect(await ids({ folderId: 'demo-folder-archive' })).toEqual(expect.arrayContaining(['demo-file-3', 'demo-folder-backups', 'demo-file-4']));
+    expect(await ids({ folderId: 'demo-folder-archive', mimeType: 'text/plain', modifiedBefore: '2021-02-15' })).toEqual(['demo-file-4']);
+  });
+});
+
+describe('purgeLogFor', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('keeps one log per account and hands the unowned log to the first account', () => {
+    purgeLogFor(null).record(file('demo-file-1'), 'run-old');
+    expect(purgeLogFor('Ana@example.com').getRuns().map(r => r.runId)).toEqual(['run-old']);
+
+    purgeLogFor('ben@example.com').record(file('demo-file-3'), 'run-ben');
+    expect(purgeLogFor('ana@example.com').getRuns().map(r => r.runId)).toEqual(['run-old']);
+    expect(purgeLogFor('ben@example.com').getRuns().map(r => r.runId)).toEqual(['run-ben']);
+    expect(purgeLogFor(null).getRuns()).toEqual([]);
+  });
+});
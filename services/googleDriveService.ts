@@ -1,16 +1,172 @@
 
-import { DriveFile } from "../types.ts";
+import { DriveBackend, DriveFile, DriveUser, DriveChange, FileListParams, SharedDrive, ScanFilters, ScanProgress, PurgeItemResult, PurgeProgress, PurgeAction, PurgeLogEntry, StorageQuota } from "../types.ts";
+import { runWithConcurrency } from "../utils/concurrency.ts";
+import { purgeLogFor } from "./purgeLogService.ts";
+import { FOLDER_MIME_TYPE, isFolder } from "./folderTree.ts";
+import { createProtectionCheck } from "./protectionService.ts";
+import { storageBytes } from "./storageQuota.ts";
+import { GapiDriveBackend } from "./gapiDriveBackend.ts";
+import { FakeDriveBackend, FakeDriveSeed, FakeDriveOptions } from "./fakeDriveBackend.ts";
+import { DownloadedFile, DEFAULT_ARCHIVE_FOLDER_NAME, MAX_BUNDLE_BYTES, exportFormatFor, isGoogleNative } from "./archiveService.ts";
+import { formatBytes } from "../utils/format.ts";
+import { exposedPermissions } from "./sharingAudit.ts";
 
 const DEFAULT_CLIENT_ID = '226301323416-7aeek9fc210lc0ab4f18hffeqf31nmig.apps.googleusercontent.com'; 
-const SCOPES = 'https://www.googleapis.com/auth/drive.metadata.readonly https://www.googleapis.com/auth/drive.file';
+const DRIVE_SCOPE = 'https://www.googleapis.com/auth/drive';
+const DRIVE_READONLY_SCOPE = 'https://www.googleapis.com/auth/drive.readonly';
+// Sign-in only asks to read metadata: scanning and reviewing never touch file contents.
+const BASE_SCOPES = ['https://www.googleapis.com/auth/drive.metadata.readonly', 'https://www.googleapis.com/auth/drive.file'];
+// Requested incrementally when a purge first needs them. Trashing, moving into the archive folder and
+// removing permissions change files the app did not create, which only the full Drive scope allows;
+// downloading only reads their contents.
+const ACTION_SCOPES: Record<PurgeAction, string> = {
+  trash: DRIVE_SCOPE,
+  archive: DRIVE_SCOPE,
+  restrict: DRIVE_SCOPE,
+  download: DRIVE_READONLY_SCOPE,
+};
 
-class GoogleDriveService {
+// Tokens are renewed when less than this is left, so a long scan or purge never runs out mid-way.
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const TOKEN_REQUEST_TIMEOUT_MS = 60 * 1000;
+// Signing out never waits on Google longer than this; the local session is already gone.
+const REVOKE_TIMEOUT_MS = 5 * 1000;
+// Folders per `in parents` query when a scoped scan walks the folder's subtree; keeps `q` well below Drive's length limit.
+const FOLDER_QUERY_BATCH = 40;
+
+interface AccountSession {
+  user: DriveUser;
+  accessToken: string;
+  expiresAt: number;
+  // What Google actually granted, which can be less than was asked for.
+  scopes: Set<string>;
+}
+
+export interface ListFilesOptions {
+  filters?: ScanFilters;
+  pageSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ScanProgress) => void;
+}
+
+export interface PurgeOptions {
+  // folderId -> parentId, so allowlisted folders also protect their subfolders.
+  folderParents?: Map<string, string | undefined>;
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  // Runs the whole flow, protection checks included, without calling files.update or writing the purge log.
+  dryRun?: boolean;
+  onProgress?: (progress: PurgeProgress) => void;
+  // Per-file action by ID; anything not listed is trashed.
+  actions?: Record<string, PurgeAction>;
+  archiveFolderName?: string;
+  // Receives every successfully downloaded file before any of them is trashed. If it throws,
+  // none of them are trashed.
+  onBundle?: (downloads: DownloadedFile[], runId: string) => Promise<void> | void;
+  // Cap on the bytes downloaded for one bundle; files past it fail instead of being trashed.
+  maxBundleBytes?: number;
+  // Domains whose permissions survive a "restrict" action.
+  internalDomains?: string[];
+}
+
+export class ScanCancelledError extends Error {
+  constructor() {
+    super("Scan cancelled by user.");
+    this.name = 'ScanCancelledError';
+  }
+}
+
+export class AuthExpiredError extends Error {
+  constructor(detail?: string) {
+    super(`Your Google session has expired and could not be renewed${detail ? ` (${detail})` : ''}. Please sign in again.`);
+    this.name = 'AuthExpiredError';
+  }
+}
+
+const escapeQueryValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// gapi rejects with the raw response rather than an Error, so dig out the status and reason by hand.
+const driveErrorStatus = (err: any): number | undefined => err?.status ?? err?.result?.error?.code;
+
+const driveErrorReason = (err: any): string | undefined => err?.result?.error?.errors?.[0]?.reason;
+
+export const describeDriveError = (err: any): string =>
+  err?.result?.error?.message || (err instanceof Error ? err.message : String(err));
+
+const isRetryableDriveError = (err: any): boolean => {
+  const status = driveErrorStatus(err);
+  if (status === 429 || (status !== undefined && status >= 500)) return true;
+  const reason = driveErrorReason(err);
+  return status === 403 && (reason === 'rateLimitExceeded' || reason === 'userRateLimitExceeded');
+};
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// One files.list sweep per target: My Drive, every selected shared drive, or all corpora at once.
+const corpusTargets = (filters: ScanFilters = {}): Pick<FileListParams, 'corpora' | 'driveId'>[] => {
+  if (filters.corpus === 'allDrives') return [{ corpora: 'allDrives' }];
+  if (filters.corpus === 'drives') return (filters.driveIds || []).map(driveId => ({ corpora: 'drive', driveId }));
+  return [{ corpora: 'user' }];
+};
+
+// Why a scan scope cannot be listed, or null. "Selected shared drives" with none picked would
+// otherwise list nothing and report an empty Drive.
+export const scanScopeError = (filters: ScanFilters = {}): string | null =>
+  filters.corpus === 'drives' && !filters.driveIds?.length ? "Pick at least one shared drive to scan." : null;
+
+// Translates the user's scan scope into a Drive `q` expression. `in parents` only matches direct
+// children, so listFiles passes the scope folder and the folders below it as `folderIds`, a batch at a time.
+export const buildFilesQuery = (filters: ScanFilters = {}, folderIds?: string[]): string => {
+  const clauses = ["trashed = false"];
+  const parents = (folderIds || [filters.folderId?.trim()]).filter((id): id is string => Boolean(id))
+    .map(id => `'${escapeQueryValue(id)}' in parents`);
+  if (parents.length > 0) {
+    clauses.push(parents.length === 1 ? parents[0] : `(${parents.join(' or ')})`);
+  }
+  const mimeType = filters.mimeType?.trim();
+  if (mimeType) {
+    // A trailing slash or wildcard ("image/", "video/*") matches the whole family.
+    const prefix = mimeType.replace(/\*$/, '');
+    clauses.push(prefix.endsWith('/')
+      ? `mimeType contains '${escapeQueryValue(prefix)}'`
+      : `mimeType = '${escapeQueryValue(mimeType)}'`);
+  }
+  if (filters.modifiedAfter) {
+    clauses.push(`modifiedTime >= '${new Date(filters.modifiedAfter).toISOString()}'`);
+  }
+  if (filters.modifiedBefore) {
+    // The chosen day is included: everything before the start of the next day.
+    const end = new Date(filters.modifiedBefore);
+    end.setUTCDate(end.getUTCDate() + 1);
+    clauses.push(`modifiedTime < '${end.toISOString()}'`);
+  }
+  return clauses.join(' and ');
+};
+
+export class GoogleDriveService {
   private gapi: any = null;
   private google: any = null;
   private tokenClient: any = null;
+  private backend: DriveBackend | null = null;
+  // Every signed-in Google account, keyed by email; Drive calls use the active one.
+  private sessions = new Map<string, AccountSession>();
+  private activeEmail: string | null = null;
+  // Set while a silent renewal is waiting for the token client's callback.
+  private pendingRefresh: { resolve: () => void; reject: (err: Error) => void } | null = null;
+  private refreshPromise: Promise<void> | null = null;
+  // Token requests given up on after TOKEN_REQUEST_TIMEOUT_MS. The token client's callbacks carry
+  // no request ID, so this many unsolicited responses are dropped rather than treated as a sign-in.
+  private abandonedRequests = 0;
   public authenticated: boolean = false;
+  // True while the in-memory demo Drive is connected instead of the user's account.
+  public isDemo: boolean = false;
   public initialized: boolean = false;
-  private onAuthChangeCallback: ((auth: boolean) => void) | null = null;
+  // Called on sign-in and sign-out; `error` is set when Google refused or the popup failed.
+  private onAuthChangeCallback: ((auth: boolean, error?: string) => void) | null = null;
 
   getClientId() {
     const saved = localStorage.getItem('DRIVE_CLIENT_ID');
@@ -28,7 +184,7 @@ class GoogleDriveService {
     this.initialized = false;
   }
 
-  async init(onAuthChange: (auth: boolean) => void) {
+  async init(onAuthChange: (auth: boolean, error?: string) => void) {
     this.onAuthChangeCallback = onAuthChange;
     
     return new Promise<void>((resolve) => {
@@ -67,16 +223,9 @@ class GoogleDriveService {
           
           this.tokenClient = this.google.accounts.oauth2.initTokenClient({
             client_id: clientId,
-            scope: SCOPES,
-            callback: (resp: any) => {
-              if (resp.error) {
-                console.error("[DrivePurge] Google Auth Error:", resp);
-                return;
-              }
-              this.authenticated = true;
-              this.gapi.client.setToken(resp);
-              if (this.onAuthChangeCallback) this.onAuthChangeCallback(true);
-            },
+            scope: BASE_SCOPES.join(' '),
+            callback: (resp: any) => this.handleTokenResponse(resp),
+            error_callback: (err: any) => this.handleTokenError(err?.message || err?.type || 'unknown_error'),
           });
           
           this.initialized = true;
@@ -89,6 +238,177 @@ class GoogleDriveService {
     });
   }
 
+  private handleTokenResponse(resp: any) {
+    if (this.dropAbandonedResponse()) return;
+    if (resp.error) {
+      this.handleTokenError(resp.error_description || resp.error);
+      return;
+    }
+    const expiresAt = Date.now() + Number(resp.expires_in || 3600) * 1000;
+    const scopes = new Set<string>(String(resp.scope || '').split(' ').filter(Boolean));
+    this.gapi.client.setToken(resp);
+    const active = this.activeSession();
+    if (this.pendingRefresh && active) {
+      // A silent renewal or a scope upgrade must not look like a fresh sign-in, or the app would restart its scan.
+      active.accessToken = resp.access_token;
+      active.expiresAt = expiresAt;
+      active.scopes = scopes;
+      this.pendingRefresh.resolve();
+      this.pendingRefresh = null;
+      return;
+    }
+    this.addSession(resp.access_token, expiresAt, scopes);
+  }
+
+  // A new sign-in, possibly of a second account: ask Drive who it is, then make it active.
+  private async addSession(accessToken: string, expiresAt: number, scopes: Set<string>) {
+    const backend = new GapiDriveBackend(this.gapi);
+    try {
+      const user = await backend.currentUser();
+      const key = user.emailAddress || accessToken;
+      this.sessions.set(key, { user, accessToken, expiresAt, scopes });
+      this.activeEmail = key;
+      this.backend = backend;
+      this.isDemo = false;
+      this.authenticated = true;
+      if (this.onAuthChangeCallback) this.onAuthChangeCallback(true);
+    } catch (err) {
+      this.handleTokenError(describeDriveError(err));
+    }
+  }
+
+  private dropAbandonedResponse(): boolean {
+    if (this.pendingRefresh || this.abandonedRequests === 0) return false;
+    this.abandonedRequests--;
+    console.warn("[DrivePurge] Ignoring a Google token response that arrived after its request timed out.");
+    return true;
+  }
+
+  private handleTokenError(message: string) {
+    if (this.dropAbandonedResponse()) return;
+    console.error("[DrivePurge] Google Auth Error:", message);
+    if (this.pendingRefresh) {
+      // The operation waiting on the renewal fails with this and reports it itself.
+      this.pendingRefresh.reject(new AuthExpiredError(message));
+      this.pendingRefresh = null;
+      return;
+    }
+    if (this.onAuthChangeCallback) this.onAuthChangeCallback(this.authenticated, message);
+  }
+
+  private activeSession(): AccountSession | undefined {
+    return this.activeEmail ? this.sessions.get(this.activeEmail) : undefined;
+  }
+
+  private clearActiveSession() {
+    if (this.activeEmail) this.sessions.delete(this.activeEmail);
+    this.activeEmail = null;
+    this.authenticated = false;
+    this.backend = null;
+    this.isDemo = false;
+  }
+
+  // Asks the token client for a new token for the active account; resolves once the callback has
+  // updated the session. Rejects with AuthExpiredError if Google refuses or does not answer.
+  private requestSessionToken(overrides: Record<string, unknown>): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRefresh = null;
+        this.abandonedRequests++;
+        reject(new AuthExpiredError("no response from Google"));
+      }, TOKEN_REQUEST_TIMEOUT_MS);
+      this.pendingRefresh = {
+        resolve: () => { clearTimeout(timer); resolve(); },
+        reject: (err) => { clearTimeout(timer); reject(err); }
+      };
+      this.tokenClient.requestAccessToken({ prompt: '', login_hint: this.activeSession()?.user.emailAddress, ...overrides });
+    });
+  }
+
+  // Re-requests a token without a consent prompt when the current one is close to expiring.
+  // Concurrent callers share one request. Rejects with AuthExpiredError if Google refuses.
+  async ensureFreshToken(minValidityMs: number = TOKEN_REFRESH_MARGIN_MS): Promise<void> {
+    const active = this.activeSession();
+    if (this.isDemo || !this.authenticated || !active) return;
+    if (Date.now() + minValidityMs < active.expiresAt) return;
+    if (!this.refreshPromise) {
+      // Keeps any scope granted since sign-in.
+      this.refreshPromise = this.requestSessionToken({ scope: Array.from(active.scopes).join(' ') || BASE_SCOPES.join(' ') }).catch((err) => {
+        this.clearActiveSession();
+        if (this.onAuthChangeCallback) this.onAuthChangeCallback(false);
+        throw err;
+      }).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  // Incremental authorization: asks the active account for scopes it has not granted yet, with
+  // Google's consent screen. Full Drive access also covers read-only access.
+  async ensureScopes(scopes: string[]): Promise<void> {
+    await this.ensureFreshToken();
+    const active = this.activeSession();
+    if (this.isDemo || !active) return;
+    const covered = (scope: string) => active.scopes.has(scope) || (scope === DRIVE_READONLY_SCOPE && active.scopes.has(DRIVE_SCOPE));
+    const missing = Array.from(new Set(scopes)).filter(scope => !covered(scope));
+    if (missing.length === 0) return;
+    const refused = new Error("Google did not grant the Drive access this action needs.");
+    await this.requestSessionToken({ scope: [...BASE_SCOPES, ...missing].join(' '), include_granted_scopes: true, prompt: 'consent' })
+      .catch(() => { throw refused; });
+    if (!missing.every(covered)) throw refused;
+  }
+
+  async getAccount(): Promise<DriveUser> {
+    const active = this.activeSession();
+    if (active && !this.isDemo) return active.user;
+    return (await this.drive()).currentUser();
+  }
+
+  get activeAccountEmail(): string | null {
+    return this.activeEmail;
+  }
+
+  // The active account's purge history.
+  purgeLog() {
+    return purgeLogFor(this.activeEmail);
+  }
+
+  listAccounts(): DriveUser[] {
+    return Array.from(this.sessions.values()).map(s => s.user);
+  }
+
+  // Makes another signed-in account the active one; its token is renewed on the next call if needed.
+  switchAccount(email: string) {
+    const session = this.sessions.get(email);
+    if (!session) throw new Error(`${email} is not signed in.`);
+    this.gapi.client.setToken({ access_token: session.accessToken });
+    this.activeEmail = email;
+    this.backend = new GapiDriveBackend(this.gapi);
+    this.isDemo = false;
+    this.authenticated = true;
+  }
+
+  // Revokes the active account's token with Google so the grant is really gone, then falls back
+  // to another signed-in account if there is one. Resolves to whether an account is still active.
+  async signOut(): Promise<boolean> {
+    const session = this.isDemo ? undefined : this.activeSession();
+    this.clearActiveSession();
+    if (session && this.google) {
+      this.gapi.client.setToken(null);
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(() => {
+          console.warn("[DrivePurge] Google did not confirm the token revocation; signed out locally.");
+          resolve();
+        }, REVOKE_TIMEOUT_MS);
+        this.google.accounts.oauth2.revoke(session.accessToken, () => { clearTimeout(timer); resolve(); });
+      });
+    }
+    const next = this.sessions.keys().next().value;
+    if (next) this.switchAccount(next);
+    return this.authenticated;
+  }
+
   async login() {
     if (!this.tokenClient) {
       await this.setupClient();
@@ -96,25 +416,390 @@ class GoogleDriveService {
     if (!this.tokenClient) {
       throw new Error("Google Identity Service is not ready. Please refresh the page.");
     }
+    // The user is waiting for this response, so no earlier timed-out request may swallow it.
+    this.abandonedRequests = 0;
     this.tokenClient.requestAccessToken({ prompt: 'select_account' });
   }
 
-  async listFiles(pageSize: number = 200): Promise<DriveFile[]> {
-    if (!this.authenticated) throw new Error("Connection lost. Please reconnect.");
-    const response = await this.gapi.client.drive.files.list({
-      pageSize,
-      fields: 'files(id, name, size, mimeType, modifiedTime, md5Checksum, webViewLink, thumbnailLink)',
-      q: "trashed = false"
-    });
-    return response.result.files || [];
+  // Swaps in any backend, e.g. a FakeDriveBackend for offline runs, and treats it as signed in.
+  useBackend(backend: DriveBackend, isDemo: boolean = false) {
+    this.backend = backend;
+    this.activeEmail = null;
+    this.isDemo = isDemo;
+    this.authenticated = true;
+  }
+
+  connectDemo(seed: FakeDriveSeed, options: FakeDriveOptions = { maxPageSize: 3, latencyMs: 120 }) {
+    this.useBackend(new FakeDriveBackend(seed, options), true);
+  }
+
+  // Every Drive call goes through here, so an expiring token is renewed before it is used.
+  private async drive(): Promise<DriveBackend> {
+    await this.ensureFreshToken();
+    if (!this.authenticated || !this.backend) throw new Error("Connection lost. Please reconnect.");
+    return this.backend;
+  }
+
+  async listFiles(options: ListFilesOptions = {}): Promise<DriveFile[]> {
+    const { filters, pageSize = 1000, signal, onProgress } = options;
+    const scopeError = scanScopeError(filters);
+    if (scopeError) throw new Error(scopeError);
+
+    const files: DriveFile[] = [];
+    const seen = new Set<string>();
+    const progress: ScanProgress = { pages: 0, filesSeen: 0, bytesCounted: 0 };
+    const folderId = filters?.folderId?.trim();
+
+    for (const target of corpusTargets(filters)) {
+      const folderIds = folderId ? await this.folderSubtree(folderId, target, signal) : null;
+      const queries = folderIds
+        ? chunk(folderIds, FOLDER_QUERY_BATCH).map(batch => buildFilesQuery(filters, batch))
+        : [buildFilesQuery(filters)];
+      for (const q of queries) {
+        await this.forEachPage({ ...target, pageSize, q }, signal, (page) => {
+          // A file with several parents can come back in more than one batch.
+          const fresh = page.filter(f => !seen.has(f.id));
+          for (const f of fresh) seen.add(f.id);
+          files.push(...fresh);
+          progress.pages++;
+          progress.filesSeen += fresh.length;
+          progress.bytesCounted += fresh.reduce((sum, f) => sum + storageBytes(f), 0);
+          if (onProgress) onProgress({ ...progress });
+        });
+      }
+    }
+
+    return files;
+  }
+
+  // Follows nextPageToken until Drive reports the listing is exhausted.
+  private async forEachPage(params: FileListParams, signal: AbortSignal | undefined, onPage: (files: DriveFile[]) => void) {
+    let pageToken: string | undefined;
+    do {
+      if (signal?.aborted) throw new ScanCancelledError();
+      // Resolved per page: a large Drive can take longer to list than one token lives.
+      const drive = await this.drive();
+      const response = await drive.listFiles({ ...params, pageToken });
+      if (signal?.aborted) throw new ScanCancelledError();
+      onPage(response.files);
+      pageToken = response.nextPageToken;
+    } while (pageToken);
+  }
+
+  // The folder and every folder below it, found one level at a time.
+  private async folderSubtree(folderId: string, target: Pick<FileListParams, 'corpora' | 'driveId'>, signal?: AbortSignal): Promise<string[]> {
+    const found = new Set([folderId]);
+    let level = [folderId];
+    while (level.length > 0) {
+      const next: string[] = [];
+      for (const batch of chunk(level, FOLDER_QUERY_BATCH)) {
+        const q = buildFilesQuery({ mimeType: FOLDER_MIME_TYPE }, batch);
+        await this.forEachPage({ ...target, pageSize: 1000, q }, signal, (page) => {
+          for (const folder of page) {
+            if (!found.has(folder.id)) {
+              found.add(folder.id);
+              next.push(folder.id);
+            }
+          }
+        });
+      }
+      level = next;
+    }
+    return Array.from(found);
+  }
+
+  async listSharedDrives(): Promise<SharedDrive[]> {
+    const drives: SharedDrive[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await (await this.drive()).listDrives(pageToken);
+      drives.push(...response.drives);
+      pageToken = response.nextPageToken;
+    } while (pageToken);
+    return drives;
+  }
+
+  async getStartPageToken(): Promise<string> {
+    return (await this.drive()).getStartPageToken();
   }
 
-  async trashFile(fileId: string): Promise<void> {
-    if (fileId.startsWith('m')) return;
-    await this.gapi.client.drive.files.update({
-      fileId,
-      trashed: true
+  // Everything added, modified, trashed or removed since `pageToken`, plus the cursor for next time.
+  async listChanges(pageToken: string, signal?: AbortSignal): Promise<{ changes: DriveChange[]; newStartPageToken: string }> {
+    const changes: DriveChange[] = [];
+    let token: string | undefined = pageToken;
+
+    while (token) {
+      if (signal?.aborted) throw new ScanCancelledError();
+      const drive = await this.drive();
+      const response = await drive.listChanges({ pageToken: token, pageSize: 1000 });
+      changes.push(...response.changes);
+      if (response.newStartPageToken) {
+        return { changes, newStartPageToken: response.newStartPageToken };
+      }
+      token = response.nextPageToken;
+    }
+    throw new Error("Drive did not return a new change cursor.");
+  }
+
+  async getStorageQuota(): Promise<StorageQuota> {
+    return (await this.drive()).about();
+  }
+
+  async getRootFolderId(): Promise<string | undefined> {
+    if (!this.authenticated || !this.backend) return undefined;
+    try {
+      return (await this.backend.getFile('root')).id;
+    } catch (e) {
+      console.error("[DrivePurge] Could not resolve the My Drive root:", e);
+      return undefined;
+    }
+  }
+
+  // Scoped scans don't list the folders above the matched files, so walk up and fetch any parent
+  // folder that is referenced but missing. Bounded by `maxDepth` levels of ancestry.
+  async fetchMissingFolders(items: DriveFile[], rootFolderId?: string, maxDepth: number = 20): Promise<DriveFile[]> {
+    const known = new Set(items.filter(isFolder).map(f => f.id));
+    if (rootFolderId) known.add(rootFolderId);
+    const fetched: DriveFile[] = [];
+    let pending = items;
+
+    for (let depth = 0; depth < maxDepth; depth++) {
+      const missing = Array.from(new Set(pending.flatMap(f => f.parents || []))).filter(id => !known.has(id));
+      if (missing.length === 0) break;
+      missing.forEach(id => known.add(id));
+
+      const drive = await this.drive();
+      const settled = await runWithConcurrency(missing, 4, (fileId) => drive.getFile(fileId));
+      pending = settled.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+      fetched.push(...pending);
+    }
+    return fetched;
+  }
+
+  // Trashes files with bounded concurrency, retrying rate-limit and server errors with exponential
+  // backoff. Never throws: every file ends up succeeded, failed or skipped in the returned list.
+  // Protected files are always skipped here, whatever the caller selected.
+  async purgeFiles(files: DriveFile[], options: PurgeOptions = {}): Promise<PurgeItemResult[]> {
+    // Taken once, so the run is logged to the account it started in.
+    const log = this.purgeLog();
+    const runId = log.createRunId();
+    const actionOf = (id: string): PurgeAction => options.actions?.[id] || 'trash';
+    const protectionReason = createProtectionCheck(undefined, options.folderParents);
+    const protectedResults: PurgeItemResult[] = [];
+    const allowed: DriveFile[] = [];
+    for (const file of files) {
+      const reason = protectionReason(file, actionOf(file.id));
+      if (reason) protectedResults.push({ id: file.id, status: 'skipped', attempts: 0, error: `Protected: ${reason}`, action: actionOf(file.id) });
+      else allowed.push(file);
+    }
+    if (!options.dryRun && allowed.length > 0) {
+      try {
+        await this.ensureScopes(allowed.map(f => ACTION_SCOPES[actionOf(f.id)]));
+      } catch (err) {
+        const error = `Drive access not granted, nothing was changed: ${describeDriveError(err)}`;
+        return [...protectedResults, ...allowed.map(f => ({ id: f.id, status: 'failed' as const, attempts: 0, error, action: actionOf(f.id) }))];
+      }
+    }
+
+    // Progress covers both phases; a download only counts as done once the file is trashed.
+    const done = { succeeded: 0, failed: 0, skipped: protectedResults.length };
+    const progressFor = (countSucceeded: boolean) => options.onProgress && ((p: PurgeProgress) => options.onProgress!({
+      total: files.length,
+      succeeded: done.succeeded + (countSucceeded ? p.succeeded : 0),
+      failed: done.failed + p.failed,
+      skipped: done.skipped + p.skipped,
+      last: p.last
+    }));
+    const byId = new Map(allowed.map(f => [f.id, f]));
+    const withAction = (results: PurgeItemResult[]) => results.map(r => ({ ...r, action: actionOf(r.id) }));
+
+    // Phase 1: fetch everything that should be kept locally, then hand it over to be saved.
+    // Files that would not fit in the bundle are refused up front, by their listed size, and again
+    // once downloaded, since exported Google Docs only reveal their size then.
+    const bundleLimit = options.maxBundleBytes ?? MAX_BUNDLE_BYTES;
+    const tooLarge = `Does not fit in one ${formatBytes(bundleLimit)} download bundle; nothing was trashed. Select fewer files to download.`;
+    let downloadResults: PurgeItemResult[] = [];
+    const toDownload: string[] = [];
+    const refused = new Set<string>();
+    let plannedBytes = 0;
+    for (const file of allowed.filter(f => actionOf(f.id) === 'download')) {
+      if (plannedBytes + storageBytes(file) > bundleLimit) {
+        downloadResults.push({ id: file.id, status: 'failed', attempts: 0, error: tooLarge });
+        refused.add(file.id);
+        continue;
+      }
+      plannedBytes += storageBytes(file);
+      toDownload.push(file.id);
+    }
+    if (toDownload.length > 0 && !options.dryRun) {
+      const downloads: DownloadedFile[] = [];
+      let downloadedBytes = 0;
+      const fetched = await this.runFileOperation(toDownload, async (id) => {
+        const download = await this.downloadFile(byId.get(id)!);
+        if (downloadedBytes + download.blob.size > bundleLimit) throw new Error(tooLarge);
+        downloadedBytes += download.blob.size;
+        downloads.push(download);
+      }, { ...options, onProgress: progressFor(false) });
+      downloadResults.push(...fetched);
+      if (downloads.length > 0) {
+        try {
+          if (!options.onBundle) throw new Error("No place to save the bundle was given.");
+          await options.onBundle(downloads, runId);
+        } catch (err) {
+          const error = `Archive bundle could not be saved, so nothing was trashed: ${describeDriveError(err)}`;
+          downloadResults = downloadResults.map(r => r.status === 'succeeded' ? { ...r, status: 'failed', error } : r);
+        }
+      }
+    }
+    for (const r of downloadResults) if (r.status !== 'succeeded') done[r.status]++;
+    const downloaded = new Set(downloadResults.filter(r => r.status === 'succeeded').map(r => r.id));
+
+    // Phase 2: trash, archive, restrict sharing, or trash what was safely downloaded.
+    let archiveFolderId: string | null = null;
+    let archiveError: string | null = null;
+    const toArchive = allowed.filter(f => actionOf(f.id) === 'archive');
+    if (toArchive.length > 0 && !options.dryRun) {
+      try {
+        archiveFolderId = await this.ensureArchiveFolder(options.archiveFolderName || DEFAULT_ARCHIVE_FOLDER_NAME);
+      } catch (err) {
+        archiveError = `Archive folder unavailable: ${describeDriveError(err)}`;
+      }
+    }
+    const archiveFailures: PurgeItemResult[] = archiveError
+      ? toArchive.map(f => ({ id: f.id, status: 'failed', attempts: 1, error: archiveError! }))
+      : [];
+    done.failed += archiveFailures.length;
+
+    const targets = allowed
+      .filter(f => actionOf(f.id) === 'download'
+        ? (options.dryRun && !refused.has(f.id)) || downloaded.has(f.id)
+        : !(archiveError && actionOf(f.id) === 'archive'))
+      .map(f => f.id);
+    // Every successful trash or archive is logged right away, so a run cut short by a closed tab can
+    // still be undone from the history view. The demo Drive lives in memory and is gone on reload,
+    // so its purges are never logged.
+    const operation = options.dryRun ? async () => {} : async (id: string) => {
+      const file = byId.get(id)!;
+      const action = actionOf(id);
+      switch (action) {
+        case 'archive': await this.archiveFile(file, archiveFolderId!); break;
+        case 'restrict': return this.restrictSharing(file, options.internalDomains || []);
+        default: await this.trashFile(file);
+      }
+      if (!this.isDemo) log.record(file, runId, action);
+    };
+    const results = await this.runFileOperation(targets, operation, { ...options, onProgress: progressFor(true) });
+
+    return [
+      ...protectedResults,
+      ...withAction(downloadResults.filter(r => r.status !== 'succeeded')),
+      ...withAction(archiveFailures),
+      ...withAction(results)
+    ];
+  }
+
+  // Fetches a file's content, exporting Google-native files to an Office format.
+  async downloadFile(file: DriveFile): Promise<DownloadedFile> {
+    const drive = await this.drive();
+    if (!isGoogleNative(file)) return { file, blob: await drive.download(file.id) };
+    const format = exportFormatFor(file.mimeType);
+    if (!format) throw new Error(`${file.mimeType.replace('application/vnd.google-apps.', 'Google ')} files cannot be exported.`);
+    return { file, blob: await drive.exportFile(file.id, format.mimeType), exportedAs: format.mimeType };
+  }
+
+  // Finds the archive folder at the top of My Drive, creating it on first use.
+  async ensureArchiveFolder(name: string): Promise<string> {
+    const drive = await this.drive();
+    const rootId = (await drive.getFile('root')).id;
+    const existing = await drive.findFolder(name, rootId);
+    return existing ? existing.id : (await drive.createFolder(name, rootId)).id;
+  }
+
+  // Takes files back out of the Trash or the archive folder, with the same retry and reporting semantics as purgeFiles.
+  async restoreFiles(fileIds: string[], options: PurgeOptions = {}): Promise<PurgeItemResult[]> {
+    try {
+      await this.ensureScopes([DRIVE_SCOPE]);
+    } catch (err) {
+      const error = `Drive access not granted, nothing was restored: ${describeDriveError(err)}`;
+      return fileIds.map(id => ({ id, status: 'failed', attempts: 0, error }));
+    }
+    const log = this.purgeLog();
+    const active = log.findActiveAll(fileIds);
+    const results = await this.runFileOperation(fileIds, (id) => this.restoreFile(id, active.get(id)), options);
+    log.markRestored(results.filter(r => r.status === 'succeeded').map(r => r.id));
+    return results;
+  }
+
+  private async runFileOperation(
+    fileIds: string[],
+    operation: (id: string) => Promise<void>,
+    options: PurgeOptions
+  ): Promise<PurgeItemResult[]> {
+    const { concurrency = 4, maxRetries = 5, baseDelayMs = 500, onProgress } = options;
+    const progress: PurgeProgress = { total: fileIds.length, succeeded: 0, failed: 0, skipped: 0 };
+
+    const settled = await runWithConcurrency(fileIds, concurrency, async (id) => {
+      let attempts = 0;
+      let result: PurgeItemResult;
+      while (true) {
+        attempts++;
+        try {
+          await operation(id);
+          result = { id, status: 'succeeded', attempts };
+          break;
+        } catch (err) {
+          if (driveErrorStatus(err) === 404) {
+            result = { id, status: 'skipped', attempts, error: "File no longer exists or is not accessible." };
+            break;
+          }
+          if (attempts <= maxRetries && isRetryableDriveError(err)) {
+            const jitter = Math.random() * baseDelayMs;
+            await sleep(baseDelayMs * 2 ** (attempts - 1) + jitter);
+            continue;
+          }
+          result = { id, status: 'failed', attempts, error: describeDriveError(err) };
+          break;
+        }
+      }
+      progress[result.status]++;
+      if (onProgress) onProgress({ ...progress, last: result });
+      return result;
     });
+
+    return settled.map((r, i) => r.status === 'fulfilled'
+      ? r.value
+      : { id: fileIds[i], status: 'failed', attempts: 0, error: describeDriveError(r.reason) });
+  }
+
+  // Neither writes the purge log; purgeFiles logs each file once it has been moved.
+  async trashFile(file: DriveFile): Promise<void> {
+    await (await this.drive()).trash(file.id);
+  }
+
+  async archiveFile(file: DriveFile, folderId: string): Promise<void> {
+    await (await this.drive()).move(file.id, [folderId], (file.parents || []).filter(p => p !== folderId));
+  }
+
+  // Deletes every public or external permission. They are re-read on each attempt, since listings can
+  // be stale or (for shared drives) empty and a retry must not trip over grants already removed.
+  // Nothing is written to the purge log: there is no trash entry to restore.
+  async restrictSharing(file: DriveFile, internalDomains: string[]): Promise<void> {
+    const drive = await this.drive();
+    const permissions = await drive.listPermissions(file.id);
+    for (const permission of exposedPermissions({ ...file, permissions }, { internalDomains })) {
+      await drive.deletePermission(file.id, permission.id);
+    }
+  }
+
+  // Archived files go back to the folders they came from; everything else comes out of the Trash.
+  async restoreFile(fileId: string, entry: PurgeLogEntry | undefined = this.purgeLog().findActive(fileId)): Promise<void> {
+    const drive = await this.drive();
+    if (entry?.action === 'archive' && entry.previousParents?.length) {
+      const current = (await drive.getFile(fileId)).parents || [];
+      await drive.move(fileId, entry.previousParents, current.filter(p => !entry.previousParents!.includes(p)));
+      return;
+    }
+    await drive.restore(fileId);
   }
 }
 
@@ -0,0 +1,75 @@
+
+import { DriveFile, DriveChange, DriveSnapshot, ScanFilters } from "../types.ts";
+import { isFolder } from "./folderTree.ts";
+import { duplicateKeys } from "./localAnalyzer.ts";
+
+export interface AppliedChanges {
+  files: DriveFile[];
+  folders: DriveFile[];
+  // Current versions of added/modified files and last-known versions of removed ones.
+  touched: DriveFile[];
+  removedIds: Set<string>;
+  added: number;
+  modified: number;
+  removed: number;
+}
+
+// Snapshots hold the whole of My Drive, so only a scan without scope filters can be snapshotted or
+// answered from one: a change feed can't be replayed against a scoped listing.
+export const coversWholeDrive = (filters: ScanFilters): boolean =>
+  (filters.corpus || 'user') === 'user'
+  && ![filters.folderId, filters.mimeType, filters.modifiedAfter, filters.modifiedBefore].some(v => v && v.trim());
+
+// Replays a Changes API feed on top of a snapshot. Trashed files count as removed.
+export const applyChanges = (snapshot: DriveSnapshot, changes: DriveChange[]): AppliedChanges => {
+  const files = new Map(snapshot.files.map(f => [f.id, f]));
+  const folders = new Map(snapshot.folders.map(f => [f.id, f]));
+  const touched = new Map<string, DriveFile>();
+  const removedIds = new Set<string>();
+  let added = 0;
+  let modified = 0;
+
+  for (const change of changes) {
+    const previous = files.get(change.fileId) || folders.get(change.fileId);
+    if (change.removed || !change.file || change.file.trashed) {
+      if (previous) {
+        files.delete(change.fileId);
+        folders.delete(change.fileId);
+        removedIds.add(change.fileId);
+        if (!isFolder(previous)) touched.set(change.fileId, previous);
+      }
+      continue;
+    }
+
+    const { trashed, ...file } = change.file;
+    removedIds.delete(file.id);
+    if (isFolder(file)) {
+      folders.set(file.id, file);
+      continue;
+    }
+    if (previous) modified++; else added++;
+    files.set(file.id, file);
+    touched.set(file.id, file);
+  }
+
+  return {
+    files: Array.from(files.values()),
+    folders: Array.from(folders.values()),
+    touched: Array.from(touched.values()),
+    removedIds,
+    added,
+    modified,
+    removed: removedIds.size
+  };
+};
+
+// Changing one copy can create or dissolve a duplicate group, so every file that shares a
+// duplicate key with a touched file has to be re-analyzed together with it.
+export const expandToDuplicateGroups = (files: DriveFile[], touched: DriveFile[]): Set<string> => {
+  const keys = new Set(touched.flatMap(duplicateKeys));
+  const ids = new Set(touched.map(f => f.id));
+  for (const file of files) {
+    if (duplicateKeys(file).some(k => keys.has(k))) ids.add(file.id);
+  }
+  return ids;
+};
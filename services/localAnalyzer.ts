@@ -0,0 +1,134 @@
+
+import { DriveFile, CleanupCandidate, CleanupRule, AnalysisResult, NearDuplicateSettings } from "../types.ts";
+import { DEFAULT_RULES, RuleContext, evaluateRules } from "./rulesEngine.ts";
+import { findNearDuplicates } from "./nearDuplicates.ts";
+import { findExposedFiles, SharingAuditOptions } from "./sharingAudit.ts";
+
+export interface LocalAnalyzerOptions extends RuleContext {
+  rules: CleanupRule[];
+  // Near-duplicate detection is skipped when omitted or disabled.
+  nearDuplicates?: NearDuplicateSettings;
+  thumbnailHashes?: Map<string, string>;
+  // The sharing exposure audit is skipped when omitted.
+  sharing?: SharingAuditOptions;
+}
+
+// Exact duplicates share an md5Checksum; files without one (e.g. Google Docs) fall back to name + size.
+const duplicateKey = (f: DriveFile): string | null => {
+  if (f.md5Checksum) return `md5:${f.md5Checksum}`;
+  if (f.size) return `name:${f.name.toLowerCase()}|${f.size}`;
+  return null;
+};
+
+// Every key under which a file could be considered a duplicate of another, for finding affected groups.
+export const duplicateKeys = (f: DriveFile): string[] => {
+  const keys: string[] = [];
+  if (f.md5Checksum) keys.push(`md5:${f.md5Checksum}`);
+  if (f.size) keys.push(`name:${f.name.toLowerCase()}|${f.size}`);
+  return keys;
+};
+
+export const groupDuplicates = (files: DriveFile[]): DriveFile[][] => {
+  const groups = new Map<string, DriveFile[]>();
+  for (const file of files) {
+    const key = duplicateKey(file);
+    if (!key) continue;
+    const group = groups.get(key);
+    if (group) group.push(file); else groups.set(key, [file]);
+  }
+  return Array.from(groups.values()).filter(g => g.length > 1);
+};
+
+// A near duplicate's confidence comes from its match with the kept version, which its reason
+// describes, so later findings add their reasons but leave that score alone.
+const mergedConfidence = (existing: CleanupCandidate, incoming: CleanupCandidate): number =>
+  existing.category === 'near_duplicate' ? existing.confidence : Math.max(existing.confidence, incoming.confidence);
+
+export const analyzeFilesLocally = (
+  files: DriveFile[],
+  options: LocalAnalyzerOptions = { rules: DEFAULT_RULES }
+): AnalysisResult => {
+  const candidates = new Map<string, CleanupCandidate>();
+  let duplicateCount = 0;
+
+  // Keep the most recently modified copy of each group and flag the rest.
+  for (const group of groupDuplicates(files)) {
+    const sorted = [...group].sort((a, b) => b.modifiedTime.localeCompare(a.modifiedTime));
+    const [original, ...copies] = sorted;
+    const exact = Boolean(original.md5Checksum);
+    for (const copy of copies) {
+      candidates.set(copy.id, {
+        id: copy.id,
+        category: 'duplicate',
+        reason: exact
+          ? `Identical checksum to "${original.name}"`
+          : `Same name and size as another copy of "${original.name}"`,
+        confidence: exact ? 0.99 : 0.8,
+      });
+      duplicateCount++;
+    }
+  }
+
+  // Versioned names and look-alike images; exact copies are already covered above.
+  let nearDuplicateCount = 0;
+  if (options.nearDuplicates?.enabled) {
+    const remaining = files.filter(f => !candidates.has(f.id));
+    const matches = findNearDuplicates(remaining, {
+      threshold: options.nearDuplicates.threshold,
+      thumbnailHashes: options.thumbnailHashes
+    });
+    for (const match of matches) candidates.set(match.id, match);
+    nearDuplicateCount = matches.length;
+  }
+
+  // Size, age, type and name thresholds all come from the user's rule set.
+  const ruleMatches = evaluateRules(files, options.rules, options);
+  for (const match of ruleMatches) {
+    const existing = candidates.get(match.id);
+    candidates.set(match.id, existing
+      ? { ...existing, reason: `${existing.reason}; ${match.reason}`, confidence: mergedConfidence(existing, match) }
+      : match);
+  }
+
+  // Exposure is a separate dimension: a file already flagged for storage keeps its category and gains a severity.
+  const exposed = options.sharing ? findExposedFiles(files, options.sharing) : [];
+  for (const match of exposed) {
+    const existing = candidates.get(match.id);
+    candidates.set(match.id, existing
+      ? { ...existing, reason: `${existing.reason}; ${match.reason}`, confidence: mergedConfidence(existing, match), severity: match.severity }
+      : match);
+  }
+
+  const summary = candidates.size === 0
+    ? `Local rules found nothing to flag across ${files.length} files.`
+    : `Local rules flagged ${candidates.size} of ${files.length} files: ${duplicateCount} duplicates, ${nearDuplicateCount} near duplicates, ${ruleMatches.length} rule matches, ${exposed.length} shared outside the organization.`;
+
+  return { candidates: Array.from(candidates.values()), summary };
+};
+
+// Layers model findings on top of the deterministic result: agreements gain the model's reasoning
+// and the higher score, model-only findings are appended as-is.
+export const mergeAnalysisResults = (local: AnalysisResult, ai: AnalysisResult): AnalysisResult => {
+  const merged = new Map<string, CleanupCandidate>(local.candidates.map(c => [c.id, { ...c }]));
+  for (const candidate of ai.candidates) {
+    const existing = merged.get(candidate.id);
+    if (!existing) {
+      merged.set(candidate.id, { ...candidate });
+      continue;
+    }
+    merged.set(candidate.id, {
+      ...existing,
+      // The model only judges storage, so its category replaces a purely sharing-based one.
+      category: existing.category === 'exposed' ? candidate.category : existing.category,
+      reason: candidate.reason && candidate.reason !== existing.reason
+        ? `${existing.reason}. AI: ${candidate.reason}`
+        : existing.reason,
+      confidence: mergedConfidence(existing, candidate),
+    });
+  }
+  return {
+    candidates: Array.from(merged.values()),
+    summary: [ai.summary, local.summary].filter(Boolean).join(' '),
+    diagnostics: [...(local.diagnostics || []), ...(ai.diagnostics || [])],
+  };
+};
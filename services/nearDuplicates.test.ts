@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { findNearDuplicates, nameSimilarity, normalizeFileName } from "./nearDuplicates.ts";
+import { DriveFile } from "../types.ts";
+
+const file = (id: string, name: string, modifiedTime: string, mimeType = 'application/pdf'): DriveFile =>
+  ({ id, name, mimeType, modifiedTime, size: String(name.length * 1000) });
+
+describe('normalizeFileName', () => {
+  it('strips copy and version markers', () => {
+    for (const name of ['Copy of Budget (1).xlsx', 'Budget_v2.xlsx', 'Budget - Copy.xlsx', 'Budget FINAL.xlsx', 'budget version 3.xlsx']) {
+      expect(normalizeFileName({ name, mimeType: 'application/vnd.ms-excel' })).toEqual({ stem: 'budget', kind: 'xlsx' });
+    }
+  });
+
+  it('uses the MIME type as the kind of Google-native files', () => {
+    expect(normalizeFileName({ name: 'Plan v2', mimeType: 'application/vnd.google-apps.document' }))
+      .toEqual({ stem: 'plan', kind: 'application/vnd.google-apps.document' });
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('treats stems with different numbers as different files', () => {
+    expect(nameSimilarity('img 0001', 'img 0002')).toBe(0);
+    expect(nameSimilarity('sales report', 'sales reports')).toBeGreaterThan(0.9);
+  });
+});
+
+describe('findNearDuplicates', () => {
+  it('keeps the newest version and points the others at it', () => {
+    const files = [
+      file('v1', 'Proposal_v1.pdf', '2023-01-01T00:00:00Z'),
+      file('final', 'Proposal FINAL.pdf', '2024-01-01T00:00:00Z'),
+      file('copy', 'Copy of Proposal.pdf', '2023-06-01T00:00:00Z'),
+      file('other', 'Invoice.pdf', '2023-06-01T00:00:00Z'),
+      file('doc', 'Proposal.docx', '2020-01-01T00:00:00Z', 'application/msword'),
+    ];
+    const found = findNearDuplicates(files);
+
+    expect(found.map(c => c.id).sort()).toEqual(['copy', 'v1']);
+    expect(found.every(c => c.category === 'near_duplicate' && c.relatedId === 'final')).toBe(true);
+  });
+
+  it('keeps name-only matches below the preselect threshold unless the size matches too', () => {
+    const files = [
+      file('old', 'Budget.xlsx', '2023-01-01T00:00:00Z'),
+      file('new', 'Budget.xlsx', '2024-01-01T00:00:00Z'),
+      { ...file('other', 'Budget copy.xlsx', '2023-06-01T00:00:00Z'), size: '1' },
+    ];
+    const byId = new Map(findNearDuplicates(files).map(c => [c.id, c]));
+
+    expect(byId.get('old')).toMatchObject({ confidence: 1, relatedId: 'new' });
+    expect(byId.get('old')!.reason).toContain('same size');
+    expect(byId.get('other')!.confidence).toBeLessThan(0.7);
+  });
+
+  it('links images by their thumbnail hashes', () => {
+    const files = [
+      file('a', 'IMG_1.jpg', '2023-01-01T00:00:00Z', 'image/jpeg'),
+      file('b', 'DSC_99.jpg', '2024-01-01T00:00:00Z', 'image/jpeg'),
+    ];
+    const thumbnailHashes = new Map([['a', 'ffff0000ffff0000'], ['b', 'ffff0000ffff0001']]);
+    const [candidate] = findNearDuplicates(files, { thumbnailHashes });
+
+    expect(candidate).toMatchObject({ id: 'a', relatedId: 'b' });
+    expect(candidate.reason).toContain('Looks like');
+  });
+
+  it('only compares thumbnails that share a byte of their hash', () => {
+    const files = [
+      file('a', 'IMG_1.jpg', '2023-01-01T00:00:00Z', 'image/jpeg'),
+      file('b', 'DSC_99.jpg', '2024-01-01T00:00:00Z', 'image/jpeg'),
+    ];
+    // 50% similar, which the lowest threshold accepts, but no byte lines up.
+    const thumbnailHashes = new Map([['a', '0f0f0f0f0f0f0f0f'], ['b', '0000000000000000']]);
+
+    expect(findNearDuplicates(files, { thumbnailHashes, threshold: 0.5 })).toEqual([]);
+    expect(findNearDuplicates(files, { thumbnailHashes: new Map([['a', '0f0f0f0f0f0f0f0f'], ['b', '0000000000000f0f']]), threshold: 0.5 }))
+      .toHaveLength(1);
+  });
+});
@@ -0,0 +1,249 @@
+
+import { DriveFile, CleanupCandidate, NearDuplicateSettings } from "../types.ts";
+import { hashSimilarity } from "./perceptualHash.ts";
+
+const STORAGE_KEY = 'DRIVE_PURGE_NEAR_DUPLICATES';
+
+// Tokens shared by more names than this (e.g. "report", "scan") say nothing about similarity and
+// would turn clustering back into an all-pairs comparison.
+const MAX_BUCKET_SIZE = 200;
+
+// A similar name alone says little: "Budget.xlsx" in two folders may be two different budgets. Such
+// matches are scaled down so they always stay below the preselect threshold (0.7); a matching size or
+// thumbnail keeps the full score.
+const NAME_ONLY_WEIGHT = 0.6;
+// Thumbnail hashes are only compared when one of these slices (a byte of the 64-bit hash) is identical,
+// which always finds hashes less than 8 bits apart and nearly always those within the threshold.
+const HASH_BAND_LENGTH = 2;
+
+export const DEFAULT_NEAR_DUPLICATE_SETTINGS: NearDuplicateSettings = {
+  enabled: true,
+  threshold: 0.8,
+  compareThumbnails: false,
+};
+
+export const getNearDuplicateSettings = (): NearDuplicateSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...DEFAULT_NEAR_DUPLICATE_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("[DrivePurge] Ignoring unreadable near-duplicate settings:", e);
+  }
+  return DEFAULT_NEAR_DUPLICATE_SETTINGS;
+};
+
+export const saveNearDuplicateSettings = (settings: NearDuplicateSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({
+    ...settings,
+    threshold: Math.min(1, Math.max(0.5, settings.threshold)),
+  }));
+};
+
+// Markers people add to a name when they save another version of the same document.
+const COPY_PREFIX = /^(copy of\s+)+/i;
+const VERSION_SUFFIXES = [
+  /[\s_-]*\(\d+\)$/,                              // "Report (1)"
+  /[\s_-]*copy(\s*\d+)?$/i,                       // "Report - Copy", "Report copy 2"
+  /[\s_-]*(v|ver|version|rev)[\s_.-]*\d+([._]\d+)*$/i, // "Report_v2", "Report v1.3", "Report version 3"
+  /[\s_-]*final$/i,                               // "Report_FINAL", "Report final final"
+];
+
+export interface NormalizedName {
+  stem: string;
+  // Extension for uploaded files, MIME type for Google-native ones; only files sharing it are compared.
+  kind: string;
+}
+
+// A name cut into its version markers and what they decorate, in the original casing:
+// "Copy of Report_v2.pdf" -> "Copy of " + "Report" + "_v2" + "pdf".
+export interface VersionedName {
+  prefix: string;
+  core: string;
+  suffix: string;
+  extension: string;
+}
+
+export const splitVersionMarkers = (name: string): VersionedName => {
+  const trimmed = name.trim();
+  const dot = trimmed.lastIndexOf('.');
+  const hasExtension = dot > 0 && dot >= trimmed.length - 6;
+  const base = hasExtension ? trimmed.slice(0, dot) : trimmed;
+  const prefix = base.match(COPY_PREFIX)?.[0] || '';
+  let core = base.slice(prefix.length);
+  let previous;
+  do {
+    previous = core;
+    for (const suffix of VERSION_SUFFIXES) core = core.replace(suffix, '');
+  } while (core !== previous && core.length > 0);
+  // A name that is nothing but markers ("final.pdf") is kept as is.
+  if (!core) return { prefix: '', core: base, suffix: '', extension: hasExtension ? trimmed.slice(dot + 1) : '' };
+  return {
+    prefix,
+    core,
+    suffix: base.slice(prefix.length + core.length),
+    extension: hasExtension ? trimmed.slice(dot + 1) : '',
+  };
+};
+
+export const normalizeFileName = (file: Pick<DriveFile, 'name' | 'mimeType'>): NormalizedName => {
+  const { core, extension } = splitVersionMarkers(file.name);
+  return {
+    stem: core.toLowerCase().replace(/[\s_.-]+/g, ' ').trim(),
+    kind: extension ? extension.toLowerCase() : file.mimeType,
+  };
+};
+
+const bigrams = (value: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const compact = value.replace(/\s+/g, ' ');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+};
+
+const numbers = (stem: string) => (stem.match(/\d+/g) || []).join(' ');
+
+// Sørensen-Dice over character bigrams: 1 for identical stems, 0 for nothing in common. Stems with
+// different numbers ("IMG_0001" / "IMG_0002", "Report 2023" / "Report 2024") are distinct files, not versions.
+export const nameSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2 || numbers(a) !== numbers(b)) return 0;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let shared = 0;
+  let total = 0;
+  for (const [gram, count] of left) {
+    shared += Math.min(count, right.get(gram) || 0);
+    total += count;
+  }
+  for (const count of right.values()) total += count;
+  return (2 * shared) / total;
+};
+
+const tokens = (stem: string): string[] => {
+  const words = stem.split(' ').filter(w => w.length >= 3);
+  return words.length > 0 ? Array.from(new Set(words)) : [stem];
+};
+
+// Minimal union-find over file indexes.
+const createClusters = (size: number) => {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  return {
+    find,
+    union: (a: number, b: number) => { parent[find(a)] = find(b); },
+  };
+};
+
+export interface NearDuplicateOptions {
+  threshold?: number;
+  // Perceptual hashes keyed by file ID, from hashThumbnails.
+  thumbnailHashes?: Map<string, string>;
+}
+
+// Clusters files whose normalized names (or thumbnails) are similar, keeps the most recently modified
+// file of each cluster and flags the rest with their similarity to it as the confidence, scaled down
+// for matches on the name alone.
+export const findNearDuplicates = (files: DriveFile[], options: NearDuplicateOptions = {}): CleanupCandidate[] => {
+  const { threshold = DEFAULT_NEAR_DUPLICATE_SETTINGS.threshold, thumbnailHashes } = options;
+  const names = files.map(normalizeFileName);
+  const clusters = createClusters(files.length);
+  // Strongest link of each file, used when it only joined its cluster through a chain.
+  const bestMatch = new Map<number, { index: number; similarity: number; byThumbnail: boolean }>();
+  const link = (a: number, b: number, similarity: number, byThumbnail: boolean) => {
+    clusters.union(a, b);
+    for (const [from, to] of [[a, b], [b, a]]) {
+      if ((bestMatch.get(from)?.similarity ?? -1) < similarity) bestMatch.set(from, { index: to, similarity, byThumbnail });
+    }
+  };
+
+  // Only names that share a word and a file kind are compared.
+  const buckets = new Map<string, number[]>();
+  names.forEach((name, index) => {
+    for (const token of tokens(name.stem)) {
+      const key = `${name.kind}|${token}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index); else buckets.set(key, [index]);
+    }
+  });
+  const compared = new Set<string>();
+  for (const bucket of buckets.values()) {
+    if (bucket.length < 2 || bucket.length > MAX_BUCKET_SIZE) continue;
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const a = bucket[i], b = bucket[j];
+        const pair = a < b ? `${a}|${b}` : `${b}|${a}`;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+        const similarity = nameSimilarity(names[a].stem, names[b].stem);
+        if (similarity >= threshold) link(a, b, similarity, false);
+      }
+    }
+  }
+
+  const bands = new Map<string, number[]>();
+  if (thumbnailHashes) {
+    files.forEach((f, index) => {
+      const hash = thumbnailHashes.get(f.id);
+      if (!hash) return;
+      for (let start = 0; start < hash.length; start += HASH_BAND_LENGTH) {
+        const key = `${start}|${hash.slice(start, start + HASH_BAND_LENGTH)}`;
+        const band = bands.get(key);
+        if (band) band.push(index); else bands.set(key, [index]);
+      }
+    });
+  }
+  for (const band of bands.values()) {
+    if (band.length < 2 || band.length > MAX_BUCKET_SIZE) continue;
+    for (let i = 0; i < band.length; i++) {
+      for (let j = i + 1; j < band.length; j++) {
+        const a = band[i], b = band[j];
+        const pair = a < b ? `#${a}|${b}` : `#${b}|${a}`;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+        const similarity = hashSimilarity(thumbnailHashes!.get(files[a].id)!, thumbnailHashes!.get(files[b].id)!);
+        if (similarity >= threshold) link(a, b, similarity, true);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  files.forEach((_, index) => {
+    const root = clusters.find(index);
+    const group = groups.get(root);
+    if (group) group.push(index); else groups.set(root, [index]);
+  });
+
+  const candidates: CleanupCandidate[] = [];
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const [kept, ...others] = [...group].sort((a, b) => files[b].modifiedTime.localeCompare(files[a].modifiedTime));
+    for (const index of others) {
+      const byName = names[index].kind === names[kept].kind ? nameSimilarity(names[index].stem, names[kept].stem) : 0;
+      const hashA = thumbnailHashes?.get(files[index].id);
+      const hashB = thumbnailHashes?.get(files[kept].id);
+      const byThumbnail = hashA && hashB ? hashSimilarity(hashA, hashB) : 0;
+      // Clusters can chain, so a member may resemble a neighbour far more than the kept file.
+      const direct = { index: kept, similarity: Math.max(byName, byThumbnail), byThumbnail: byThumbnail > byName };
+      const match = direct.similarity >= threshold ? direct : bestMatch.get(index)!;
+      const sameSize = Boolean(files[index].size) && files[index].size === files[match.index].size;
+      const confidence = match.byThumbnail || sameSize ? match.similarity : match.similarity * NAME_ONLY_WEIGHT;
+      candidates.push({
+        id: files[index].id,
+        category: 'near_duplicate',
+        reason: `${match.byThumbnail ? 'Looks like' : 'Another version of'} "${files[match.index].name}" (${Math.round(match.similarity * 100)}% similar${sameSize ? ', same size' : ''})`,
+        confidence: Math.round(confidence * 100) / 100,
+        relatedId: files[match.index].id,
+      });
+    }
+  }
+  return candidates;
+};
@@ -0,0 +1,55 @@
+
+import { DriveFile, AnalysisResult, AnalysisProvider, ProviderSettings } from "../types.ts";
+import { analyzeInChunks } from "./chunking.ts";
+import { parseModelResponse } from "./analysisValidator.ts";
+import { buildAnalysisPrompt, JSON_SHAPE_INSTRUCTIONS, toAnalysisMetadata } from "./analysisPrompt.ts";
+
+export const DEFAULT_OPENAI_ENDPOINT = "http://localhost:11434/v1";
+export const DEFAULT_OPENAI_MODEL = "llama3.1";
+
+const analyzeChunk = async (files: DriveFile[], settings: ProviderSettings, prompt: string): Promise<AnalysisResult> => {
+  const url = `${settings.endpoint.replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: settings.model,
+      temperature: 0,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: `${prompt}\n\n${JSON_SHAPE_INSTRUCTIONS}` },
+        { role: 'user', content: JSON.stringify(files.map(toAnalysisMetadata)) }
+      ]
+    })
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`Analysis endpoint returned ${response.status} ${response.statusText}${body ? `: ${body.slice(0, 300)}` : ''}`);
+  }
+
+  const data = await response.json();
+  return parseModelResponse(data?.choices?.[0]?.message?.content, files);
+};
+
+// Works with any server that speaks the OpenAI chat completions API: Ollama, llama.cpp, vLLM, LM Studio.
+export const createOpenAiCompatibleProvider = (settings: ProviderSettings): AnalysisProvider => {
+  const resolved: ProviderSettings = {
+    ...settings,
+    endpoint: settings.endpoint || DEFAULT_OPENAI_ENDPOINT,
+    model: settings.model || DEFAULT_OPENAI_MODEL,
+  };
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    model: resolved.model,
+    isConfigured: () => Boolean(resolved.endpoint && resolved.model),
+    analyze: (files, options) => {
+      const prompt = buildAnalysisPrompt(options?.rules);
+      return analyzeInChunks(files, (chunk) => analyzeChunk(chunk, resolved, prompt), options);
+    },
+  };
+};
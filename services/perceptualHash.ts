@@ -0,0 +1,72 @@
+
+import { DriveFile } from "../types.ts";
+import { runWithConcurrency } from "../utils/concurrency.ts";
+
+// Hashing costs one image fetch per file, so very large photo libraries are sampled.
+const MAX_HASHED_IMAGES = 500;
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+const loadImage = (url: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  // Without CORS the canvas is tainted and its pixels cannot be read back.
+  image.crossOrigin = 'anonymous';
+  image.referrerPolicy = 'no-referrer';
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error(`Could not load thumbnail ${url}`));
+  image.src = url;
+});
+
+// 64-bit difference hash: shrink to 9x8 greyscale and record whether each pixel is brighter than
+// its right-hand neighbour. Returned as 16 hex characters.
+export const computeDifferenceHash = async (url: string): Promise<string> => {
+  const image = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.drawImage(image, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const grey = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (grey(x, y) > grey(x + 1, y) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+// 1 for identical hashes, 0 when every bit differs.
+export const hashSimilarity = (a: string, b: string): number => {
+  if (a.length !== b.length) return 0;
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return 1 - distance / (a.length * 4);
+};
+
+// Hashes the thumbnails of image files. Thumbnails that fail to load (expired link, CORS) are
+// simply left out, so those files fall back to name matching.
+export const hashThumbnails = async (files: DriveFile[], concurrency = 4): Promise<Map<string, string>> => {
+  const images = files
+    .filter(f => f.mimeType.startsWith('image/') && f.thumbnailLink)
+    .slice(0, MAX_HASHED_IMAGES);
+  const settled = await runWithConcurrency(images, concurrency, (file) => computeDifferenceHash(file.thumbnailLink!));
+  const hashes = new Map<string, string>();
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') hashes.set(images[index].id, result.value);
+  });
+  return hashes;
+};
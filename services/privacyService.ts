@@ -0,0 +1,181 @@
+
+import { DriveFile, PrivacySettings, CleanupRule, AnalysisProviderId } from "../types.ts";
+import { splitVersionMarkers, normalizeFileName } from "./nearDuplicates.ts";
+import { buildAnalysisPrompt, JSON_SHAPE_INSTRUCTIONS, toAnalysisMetadata } from "./analysisPrompt.ts";
+import { previewChatPayload } from "./cleanupAgent.ts";
+
+const STORAGE_KEY = 'DRIVE_PURGE_PRIVACY';
+const SALT_KEY = 'DRIVE_PURGE_NAME_SALT';
+
+const TOKEN_PATTERN = /file_([0-9a-f]{12})/g;
+// Names shorter than this are too likely to be ordinary words to be replaced inside free text.
+const MIN_TEXT_NAME_LENGTH = 4;
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  redactNames: false,
+};
+
+export const getPrivacySettings = (): PrivacySettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...DEFAULT_PRIVACY_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("[DrivePurge] Ignoring unreadable privacy settings:", e);
+  }
+  return DEFAULT_PRIVACY_SETTINGS;
+};
+
+export const savePrivacySettings = (settings: PrivacySettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// A per-browser secret mixed into every hash, so a token cannot be matched against a list of
+// guessed names. It never leaves the browser and stays fixed so tokens are stable across audits.
+const getNameSalt = (): string => {
+  let salt = localStorage.getItem(SALT_KEY);
+  if (!salt) {
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    salt = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(SALT_KEY, salt);
+  }
+  return salt;
+};
+
+const fnv1a = (value: string, seed: number): number => {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// 48 bits from two FNV-1a passes: collisions stay unlikely even across tens of thousands of stems.
+const stemHash = (stem: string, salt: string): string => {
+  const input = `${salt}:${stem}`;
+  return fnv1a(input, 0x811c9dc5).toString(16).padStart(8, '0') + fnv1a(input, 0x050c5d1f).toString(16).padStart(8, '0').slice(0, 4);
+};
+
+interface TokenEntry {
+  token: string;
+  name: string;
+  // Where "file_<hash>" starts inside the token, i.e. the length of a "Copy of " prefix.
+  offset: number;
+  core: string;
+}
+
+export interface NameRedactor {
+  // "Copy of Q3 Sales Report_v2.docx" -> "Copy of file_3fa91c0d22be_v2.docx". Versions of the same
+  // document share the hash, so the model can still reason about duplicates.
+  tokenize: (name: string) => string;
+  redact: (file: DriveFile) => DriveFile;
+  // Replaces every known file or folder name inside free text, such as a chat message or a reason
+  // that quotes another file, with its token.
+  redactText: (text: string) => string;
+  // Puts the real names back into text the model wrote about tokenized files.
+  reveal: (text: string) => string;
+}
+
+// `items` are the files and folders whose names may appear in text; any other name is tokenized on demand.
+export const createNameRedactor = (items: Pick<DriveFile, 'name'>[], salt: string = getNameSalt()): NameRedactor => {
+  const byHash = new Map<string, TokenEntry[]>();
+  const tokens = new Map<string, string>();
+  // Known names by their first few lowercase characters, longest first, built on first use.
+  let byPrefix: Map<string, { name: string; lower: string }[]> | null = null;
+
+  const tokenize = (name: string): string => {
+    const cached = tokens.get(name);
+    if (cached) return cached;
+    const { prefix, core, suffix, extension } = splitVersionMarkers(name);
+    const hash = stemHash(normalizeFileName({ name, mimeType: '' }).stem, salt);
+    const token = `${prefix}file_${hash}${suffix}${extension ? `.${extension}` : ''}`;
+    tokens.set(name, token);
+    const entries = byHash.get(hash) || [];
+    if (!entries.some(e => e.token === token)) {
+      entries.push({ token, name: name.trim(), offset: prefix.length, core });
+      // Longest first, so "file_x_v2.docx" is matched before the bare "file_x".
+      entries.sort((a, b) => b.token.length - a.token.length);
+    }
+    byHash.set(hash, entries);
+    return token;
+  };
+
+  for (const item of items) tokenize(item.name);
+
+  const namesByPrefix = () => {
+    if (byPrefix) return byPrefix;
+    byPrefix = new Map();
+    for (const name of tokens.keys()) {
+      const trimmed = name.trim();
+      if (trimmed.length < MIN_TEXT_NAME_LENGTH) continue;
+      const key = trimmed.slice(0, MIN_TEXT_NAME_LENGTH).toLowerCase();
+      byPrefix.set(key, [...(byPrefix.get(key) || []), { name: trimmed, lower: trimmed.toLowerCase() }]);
+    }
+    for (const names of byPrefix.values()) names.sort((a, b) => b.lower.length - a.lower.length);
+    return byPrefix;
+  };
+
+  const isWordChar = (char: string | undefined) => Boolean(char && /[\p{L}\p{N}_]/u.test(char));
+
+  const redactText = (text: string): string => {
+    const lower = text.toLowerCase();
+    const index = namesByPrefix();
+    let result = '';
+    let cursor = 0;
+    for (let i = 0; i <= text.length - MIN_TEXT_NAME_LENGTH; i++) {
+      if (i < cursor || isWordChar(text[i - 1])) continue;
+      const names = index.get(lower.slice(i, i + MIN_TEXT_NAME_LENGTH));
+      const match = names?.find(n => lower.startsWith(n.lower, i) && !isWordChar(text[i + n.lower.length]));
+      if (!match) continue;
+      result += text.slice(cursor, i) + tokenize(match.name);
+      cursor = i + match.lower.length;
+    }
+    return result + text.slice(cursor);
+  };
+
+  const reveal = (text: string): string => {
+    let result = '';
+    let cursor = 0;
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+      const entries = byHash.get(match[1]);
+      const at = match.index!;
+      if (!entries || at < cursor) continue;
+      const full = entries.find(e => at - e.offset >= cursor && text.startsWith(e.token, at - e.offset));
+      if (full) {
+        result += text.slice(cursor, at - full.offset) + full.name;
+        cursor = at - full.offset + full.token.length;
+      } else {
+        // The model shortened the token (dropped the extension or a marker); show the shared part of the name.
+        result += text.slice(cursor, at) + entries[0].core;
+        cursor = at + match[0].length;
+      }
+    }
+    return result + text.slice(cursor);
+  };
+
+  return {
+    tokenize,
+    redact: (file) => ({ ...file, name: tokenize(file.name) }),
+    redactText,
+    reveal,
+  };
+};
+
+// What leaves the browser, built with the same functions that send it: one analysis request as the
+// provider sends it (nothing for local-rules-only audits) and what the chat agent sends to Gemini.
+export const buildPayloadPreview = (
+  files: DriveFile[],
+  provider: AnalysisProviderId,
+  redactNames: boolean,
+  rules: CleanupRule[] = []
+): string => {
+  const redactor = redactNames ? createNameRedactor(files) : null;
+  const metadata = JSON.stringify(files.map(f => toAnalysisMetadata(redactor ? redactor.redact(f) : f)));
+  const prompt = buildAnalysisPrompt(rules);
+  const analysis = provider === 'heuristic'
+    ? 'Nothing is sent: local rules run entirely in the browser.'
+    : provider === 'openai'
+      ? `${prompt}\n\n${JSON_SHAPE_INSTRUCTIONS}\n\n${metadata}`
+      : `${prompt}\n\n${metadata}`;
+  return `--- Analysis ---\n${analysis}\n\n--- Chat agent (Gemini, only when you send a message) ---\n${previewChatPayload(files, redactor)}`;
+};
@@ -0,0 +1,69 @@
+
+import { DriveFile, Allowlist, PurgeAction } from "../types.ts";
+import { globToRegExp } from "../utils/glob.ts";
+
+const STORAGE_KEY = 'DRIVE_PURGE_ALLOWLIST';
+
+export const EMPTY_ALLOWLIST: Allowlist = { nameGlobs: [], folderIds: [], fileIds: [] };
+
+export const getAllowlist = (): Allowlist => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...EMPTY_ALLOWLIST, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("[DrivePurge] Ignoring unreadable allowlist:", e);
+  }
+  return EMPTY_ALLOWLIST;
+};
+
+export const saveAllowlist = (allowlist: Allowlist) => {
+  const clean = (list: string[]) => Array.from(new Set(list.map(v => v.trim()).filter(Boolean)));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({
+    nameGlobs: clean(allowlist.nameGlobs),
+    folderIds: clean(allowlist.folderIds),
+    fileIds: clean(allowlist.fileIds),
+  }));
+};
+
+export type ProtectionCheck = (file: DriveFile, action?: PurgeAction) => string | null;
+
+// Returns a checker that explains why a file must not be touched, or null when it is fair game.
+// `folderParents` (folderId -> parentId) lets folder allowlist entries cover whole subtrees.
+// Restricting sharing removes nothing, so only the allowlist and the share capability limit it.
+export const createProtectionCheck = (
+  allowlist: Allowlist = getAllowlist(),
+  folderParents?: Map<string, string | undefined>
+): ProtectionCheck => {
+  const nameMatchers = allowlist.nameGlobs.map(glob => ({ glob, re: globToRegExp(glob) }));
+  const fileIds = new Set(allowlist.fileIds);
+  const folderIds = new Set(allowlist.folderIds);
+
+  const inAllowlistedFolder = (file: DriveFile): boolean => {
+    const seen = new Set<string>();
+    let current = file.parents?.[0];
+    while (current && !seen.has(current)) {
+      if (folderIds.has(current)) return true;
+      seen.add(current);
+      current = folderParents?.get(current);
+    }
+    return false;
+  };
+
+  return (file, action = 'trash') => {
+    if (fileIds.has(file.id)) return "Allowlisted file";
+    const nameMatch = nameMatchers.find(m => m.re.test(file.name));
+    if (nameMatch) return `Name matches "${nameMatch.glob}"`;
+    if (folderIds.size > 0 && inAllowlistedFolder(file)) return "In an allowlisted folder";
+    if (action === 'restrict') return file.capabilities?.canShare === false ? "You can't change sharing on this file" : null;
+    if (file.starred) return "Starred";
+    // Shared-drive files belong to the organization, so ownership says nothing there; the
+    // trash capability is what decides whether this account may remove them.
+    if (file.capabilities?.canTrash === false) return "You can't trash this file";
+    if (!file.driveId && file.ownedByMe === false) {
+      const owner = file.owners?.[0];
+      return `Owned by ${owner?.displayName || owner?.emailAddress || 'someone else'}`;
+    }
+    if (file.shared) return "Shared with others";
+    return null;
+  };
+};
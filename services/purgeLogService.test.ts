@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { purgeLogFor } from "./purgeLogService.ts";
+import { DriveFile } from "../types.ts";
+
+const purgeLog = () => purgeLogFor('ana@example.com');
+
+const file = (id: string): DriveFile =>
+  ({ id, name: `${id}.pdf`, mimeType: 'application/pdf', modifiedTime: '2024-01-01T00:00:00Z', size: '1024' });
+
+describe('purgeLogFor', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useRealTimers();
+  });
+
+  it('groups entries by run, newest run first', () => {
+    vi.useFakeTimers({ now: new Date('2024-05-01T10:00:00Z') });
+    purgeLog().record(file('a'), 'run-1');
+    purgeLog().record(file('b'), 'run-1');
+    vi.setSystemTime(new Date('2024-05-02T10:00:00Z'));
+    purgeLog().record(file('c'), 'run-2');
+
+    const runs = purgeLog().getRuns();
+    expect(runs.map(r => r.runId)).toEqual(['run-2', 'run-1']);
+    expect(runs[1]).toMatchObject({ startedAt: '2024-05-01T10:00:00.000Z' });
+    expect(runs[1].entries.map(e => e.fileId)).toEqual(['a', 'b']);
+  });
+
+  it('marks restored files and keeps them in history', () => {
+    purgeLog().record(file('a'), 'run-1');
+    purgeLog().record(file('b'), 'run-1');
+    purgeLog().markRestored(['a']);
+
+    const [run] = purgeLog().getRuns();
+    expect(run.entries.find(e => e.fileId === 'a')!.restoredAt).toBeTruthy();
+    expect(run.entries.find(e => e.fileId === 'b')!.restoredAt).toBeUndefined();
+  });
+
+  it('starts fresh when the stored log is unreadable', () => {
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('DRIVE_PURGE_LOG:ana@example.com', '{not json');
+
+    expect(purgeLog().getRuns()).toEqual([]);
+    expect(logError).toHaveBeenCalled();
+    logError.mockRestore();
+  });
+});
@@ -0,0 +1,101 @@
+
+import { DriveFile, PurgeAction, PurgeLogEntry, PurgeRun } from "../types.ts";
+
+const STORAGE_KEY = 'DRIVE_PURGE_LOG';
+// Oldest entries are dropped beyond this so localStorage never fills up.
+const MAX_ENTRIES = 5000;
+
+class PurgeLogService {
+  constructor(private readonly storageKey: string) {}
+
+  private read(): PurgeLogEntry[] {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      return raw ? JSON.parse(raw) : [];
+    } catch (e) {
+      console.error("[DrivePurge] Purge log is unreadable, starting fresh:", e);
+      return [];
+    }
+  }
+
+  private write(entries: PurgeLogEntry[]) {
+    localStorage.setItem(this.storageKey, JSON.stringify(entries.slice(-MAX_ENTRIES)));
+  }
+
+  createRunId(): string {
+    return `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  record(file: DriveFile, runId: string, action: PurgeAction = 'trash') {
+    const entries = this.read();
+    entries.push({
+      runId,
+      fileId: file.id,
+      name: file.name,
+      mimeType: file.mimeType,
+      size: file.size,
+      trashedAt: new Date().toISOString(),
+      action,
+      previousParents: action === 'archive' ? file.parents : undefined
+    });
+    this.write(entries);
+  }
+
+  // The most recent entry for a file that has not been restored yet.
+  findActive(fileId: string): PurgeLogEntry | undefined {
+    return this.read().reverse().find(e => e.fileId === fileId && !e.restoredAt);
+  }
+
+  // findActive for many files with a single read of the log.
+  findActiveAll(fileIds: string[]): Map<string, PurgeLogEntry> {
+    const ids = new Set(fileIds);
+    const active = new Map<string, PurgeLogEntry>();
+    for (const entry of this.read()) {
+      if (ids.has(entry.fileId) && !entry.restoredAt) active.set(entry.fileId, entry);
+    }
+    return active;
+  }
+
+  markRestored(fileIds: string[]) {
+    const ids = new Set(fileIds);
+    const restoredAt = new Date().toISOString();
+    this.write(this.read().map(e => ids.has(e.fileId) && !e.restoredAt ? { ...e, restoredAt } : e));
+  }
+
+  // Runs newest first, each with its entries in the order they were trashed.
+  getRuns(): PurgeRun[] {
+    const runs = new Map<string, PurgeRun>();
+    for (const entry of this.read()) {
+      const run = runs.get(entry.runId);
+      if (run) {
+        run.entries.push(entry);
+      } else {
+        runs.set(entry.runId, { runId: entry.runId, startedAt: entry.trashedAt, entries: [entry] });
+      }
+    }
+    return Array.from(runs.values()).sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  clear() {
+    localStorage.removeItem(this.storageKey);
+  }
+}
+
+const logs = new Map<string, PurgeLogService>();
+
+// One log per Google account, so history and restores never reach into another account's Drive.
+// The log from before logs were per account has no owner; the first account to open its own
+// log takes it over, which matches the single-account setup that wrote it.
+export const purgeLogFor = (accountEmail: string | null): PurgeLogService => {
+  const key = accountEmail ? `${STORAGE_KEY}:${accountEmail.toLowerCase()}` : STORAGE_KEY;
+  if (accountEmail && localStorage.getItem(key) === null) {
+    const legacy = localStorage.getItem(STORAGE_KEY);
+    if (legacy !== null) {
+      localStorage.setItem(key, legacy);
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+  let log = logs.get(key);
+  if (!log) logs.set(key, log = new PurgeLogService(key));
+  return log;
+};
@@ -0,0 +1,175 @@
+
+import { DriveFile, DrivePermission, CleanupCandidate, AuditReport, AuditReportEntry, CategoryTotal } from "../types.ts";
+import { validateAnalysisResult } from "./analysisValidator.ts";
+import { formatBytes } from "../utils/format.ts";
+import { storageBytes } from "./storageQuota.ts";
+
+const computeTotals = (entries: AuditReportEntry[]): Record<string, CategoryTotal> => {
+  const totals: Record<string, CategoryTotal> = {};
+  for (const { file, candidate, selected } of entries) {
+    const t = totals[candidate.category] || (totals[candidate.category] = { count: 0, bytes: 0, selectedCount: 0, selectedBytes: 0 });
+    const bytes = storageBytes(file);
+    t.count++;
+    t.bytes += bytes;
+    if (selected) {
+      t.selectedCount++;
+      t.selectedBytes += bytes;
+    }
+  }
+  return totals;
+};
+
+export const buildAuditReport = (
+  summary: string,
+  candidates: CleanupCandidate[],
+  files: DriveFile[],
+  selectedIds: ReadonlySet<string>,
+  // Puts real names back into reasons written about privacy-mode tokens.
+  reveal: (text: string) => string = text => text
+): AuditReport => {
+  const byId = new Map(files.map(f => [f.id, f]));
+  const entries = candidates.flatMap(candidate => {
+    const file = byId.get(candidate.id);
+    return file ? [{ file, candidate: { ...candidate, reason: reveal(candidate.reason) }, selected: selectedIds.has(candidate.id) }] : [];
+  });
+  return { version: 1, generatedAt: new Date().toISOString(), summary, entries, totals: computeTotals(entries) };
+};
+
+export const reportToJson = (report: AuditReport): string => JSON.stringify(report, null, 2);
+
+const csvCell = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const reportToCsv = (report: AuditReport): string => {
+  const header = ['id', 'name', 'mimeType', 'sizeBytes', 'modifiedTime', 'category', 'confidence', 'reason', 'selected', 'webViewLink', 'exposureSeverity'];
+  const rows = report.entries.map(({ file, candidate, selected }) => [
+    file.id, file.name, file.mimeType, storageBytes(file), file.modifiedTime,
+    candidate.category, candidate.confidence, candidate.reason, selected, file.webViewLink, candidate.severity
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
+
+const mdCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export const reportToMarkdown = (report: AuditReport): string => {
+  const selected = report.entries.filter(e => e.selected);
+  const totalRows = Object.entries(report.totals).map(([category, t]) =>
+    `| ${category} | ${t.count} | ${formatBytes(t.bytes)} | ${t.selectedCount} | ${formatBytes(t.selectedBytes)} |`);
+  const selectedBytes = Object.values(report.totals).reduce((sum, t) => sum + t.selectedBytes, 0);
+
+  return [
+    `# DrivePurge Audit Report`,
+    ``,
+    `Generated ${new Date(report.generatedAt).toLocaleString()}.`,
+    ``,
+    report.summary,
+    ``,
+    `## Reclaimable storage`,
+    ``,
+    `| Category | Flagged | Size | Selected | Selected size |`,
+    `| --- | ---: | ---: | ---: | ---: |`,
+    ...totalRows,
+    ``,
+    `**${selected.length} files selected for purge, ${formatBytes(selectedBytes)} in total.**`,
+    ``,
+    `## Flagged files`,
+    ``,
+    `| Selected | Name | Category | Size | Modified | Confidence | Reason |`,
+    `| :---: | --- | --- | ---: | --- | ---: | --- |`,
+    ...report.entries.map(({ file, candidate, selected }) =>
+      `| ${selected ? 'x' : ''} | ${mdCell(file.name)} | ${candidate.category} | ${formatBytes(file.size)} | ${file.modifiedTime.slice(0, 10)} | ${Math.round(candidate.confidence * 100)}% | ${mdCell(candidate.reason)} |`),
+    ``
+  ].join('\n');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+const optionalBoolean = (value: unknown) => typeof value === 'boolean' ? value : undefined;
+const stringList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+const PERMISSION_TYPES: DrivePermission['type'][] = ['user', 'group', 'domain', 'anyone'];
+
+const toPermission = (value: unknown): DrivePermission | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.role !== 'string') return null;
+  if (!(PERMISSION_TYPES as unknown[]).includes(value.type)) return null;
+  return {
+    id: value.id,
+    type: value.type as DrivePermission['type'],
+    role: value.role,
+    emailAddress: optionalString(value.emailAddress),
+    domain: optionalString(value.domain),
+    allowFileDiscovery: optionalBoolean(value.allowFileDiscovery),
+  };
+};
+
+// Keeps only the DriveFile fields with the right types; anything else in the report is dropped.
+const toReportFile = (value: unknown): DriveFile | null => {
+  if (!isRecord(value)) return null;
+  const { id, name, mimeType, modifiedTime } = value;
+  if (typeof id !== 'string' || typeof name !== 'string' || typeof modifiedTime !== 'string') return null;
+  return {
+    id,
+    name,
+    mimeType: typeof mimeType === 'string' ? mimeType : '',
+    modifiedTime,
+    size: optionalString(value.size),
+    quotaBytesUsed: optionalString(value.quotaBytesUsed),
+    md5Checksum: optionalString(value.md5Checksum),
+    webViewLink: optionalString(value.webViewLink),
+    thumbnailLink: optionalString(value.thumbnailLink),
+    parents: stringList(value.parents),
+    starred: optionalBoolean(value.starred),
+    ownedByMe: optionalBoolean(value.ownedByMe),
+    shared: optionalBoolean(value.shared),
+    owners: Array.isArray(value.owners)
+      ? value.owners.filter(isRecord).map(o => ({ displayName: optionalString(o.displayName), emailAddress: optionalString(o.emailAddress) }))
+      : undefined,
+    permissions: Array.isArray(value.permissions)
+      ? value.permissions.map(toPermission).filter((p): p is DrivePermission => p !== null)
+      : undefined,
+    driveId: optionalString(value.driveId),
+    capabilities: isRecord(value.capabilities)
+      ? { canTrash: optionalBoolean(value.capabilities.canTrash), canShare: optionalBoolean(value.capabilities.canShare) }
+      : undefined,
+  };
+};
+
+// Imported reports come from other people's machines, so every field is checked before use,
+// candidates go through the same validation as model output and totals are recomputed rather than trusted.
+export const parseAuditReport = (json: string): AuditReport => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(raw) || raw.version !== 1 || !Array.isArray(raw.entries)) {
+    throw new Error("This does not look like a DrivePurge JSON report.");
+  }
+
+  const rawEntries = raw.entries.filter(isRecord);
+  const files = rawEntries.map(e => toReportFile(e.file)).filter((f): f is DriveFile => f !== null);
+  const validated = validateAnalysisResult({ candidates: rawEntries.map(e => e.candidate), summary: raw.summary }, files);
+  const selectedIds = new Set(rawEntries
+    .filter(e => e.selected === true && isRecord(e.file) && typeof e.file.id === 'string')
+    .map(e => (e.file as Record<string, unknown>).id as string));
+
+  const byId = new Map(files.map(f => [f.id, f]));
+  const entries = validated.candidates.map(candidate => ({
+    file: byId.get(candidate.id)!,
+    candidate,
+    selected: selectedIds.has(candidate.id)
+  }));
+  return {
+    version: 1,
+    generatedAt: typeof raw.generatedAt === 'string' ? raw.generatedAt : new Date().toISOString(),
+    summary: validated.summary,
+    entries,
+    totals: computeTotals(entries)
+  };
+};
@@ -0,0 +1,51 @@
+
+import { DriveFile, CleanupCandidate, ReviewFilters, ReviewSort } from "../types.ts";
+import { storageBytes } from "./storageQuota.ts";
+
+// Candidates above this confidence are preselected after every analysis. The toolbar starts at the
+// same value but selects at or above it, as its label says.
+export const DEFAULT_SELECTION_THRESHOLD = 0.7;
+
+export const DEFAULT_REVIEW_FILTERS: ReviewFilters = { category: 'all', mimeType: '', search: '', sortBy: 'confidence' };
+
+export interface ReviewItem {
+  candidate: CleanupCandidate;
+  file: DriveFile;
+}
+
+// Every order is descending: biggest, most recent or most certain first.
+const SORTS: Record<ReviewSort, (a: ReviewItem, b: ReviewItem) => number> = {
+  confidence: (a, b) => b.candidate.confidence - a.candidate.confidence,
+  size: (a, b) => storageBytes(b.file) - storageBytes(a.file),
+  date: (a, b) => b.file.modifiedTime.localeCompare(a.file.modifiedTime),
+};
+
+export const filterReviewItems = (
+  candidates: CleanupCandidate[],
+  filesById: Map<string, DriveFile>,
+  filters: ReviewFilters
+): ReviewItem[] => {
+  const search = filters.search.trim().toLowerCase();
+  const items: ReviewItem[] = [];
+  for (const candidate of candidates) {
+    const file = filesById.get(candidate.id);
+    if (!file) continue;
+    if (filters.category !== 'all' && candidate.category !== filters.category) continue;
+    if (filters.mimeType && file.mimeType !== filters.mimeType) continue;
+    if (search && !file.name.toLowerCase().includes(search)) continue;
+    items.push({ candidate, file });
+  }
+  return items.sort(SORTS[filters.sortBy]);
+};
+
+export const candidateMimeTypes = (candidates: CleanupCandidate[], filesById: Map<string, DriveFile>): string[] =>
+  Array.from(new Set(candidates.map(c => filesById.get(c.id)?.mimeType).filter((m): m is string => Boolean(m)))).sort();
+
+export const sumBytes = (ids: Iterable<string>, filesById: Map<string, DriveFile>): number => {
+  let total = 0;
+  for (const id of ids) {
+    const file = filesById.get(id);
+    if (file) total += storageBytes(file);
+  }
+  return total;
+};
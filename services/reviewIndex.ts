@@ -0,0 +1,99 @@
+
+import { DriveFile, CleanupCandidate, DuplicateGroup, ReviewFilters, SurvivorStrategy, AnalysisResult } from "../types.ts";
+import { filterReviewItems } from "./reviewFilters.ts";
+import { buildDuplicateGroups } from "./duplicateGroups.ts";
+import { LocalAnalyzerOptions, analyzeFilesLocally } from "./localAnalyzer.ts";
+
+// What changed between two lists of records with IDs: new or replaced records, and removed IDs.
+export interface DatasetChanges<T> {
+  upserted: T[];
+  removed: string[];
+}
+
+// Records are compared by identity, so only objects the app actually replaced are sent again.
+export const diffById = <T extends { id: string }>(previous: T[], next: T[]): DatasetChanges<T> => {
+  const before = new Map(previous.map(item => [item.id, item]));
+  const upserted = next.filter(item => before.get(item.id) !== item);
+  const kept = new Set(next.map(item => item.id));
+  return { upserted, removed: previous.filter(item => !kept.has(item.id)).map(item => item.id) };
+};
+
+const applyChanges = <T extends { id: string }>(target: Map<string, T>, changes: DatasetChanges<T>) => {
+  for (const id of changes.removed) target.delete(id);
+  for (const item of changes.upserted) target.set(item.id, item);
+};
+
+// The review screen's heavy local processing over one scan: the local rules pass, filtering, sorting and
+// duplicate grouping. It lives in the review worker and only falls back to the main thread when workers
+// are unavailable. Files and candidates are kept by ID and updated with changes, so the worker receives
+// the 50k-file listing once per scan.
+export class ReviewIndex {
+  private filesById = new Map<string, DriveFile>();
+  private candidatesById = new Map<string, CleanupCandidate>();
+  private lists: { files: DriveFile[]; candidates: CleanupCandidate[] } | null = null;
+
+  setDataset(files: DriveFile[], candidates: CleanupCandidate[]) {
+    this.filesById = new Map(files.map(f => [f.id, f]));
+    this.candidatesById = new Map(candidates.map(c => [c.id, c]));
+    this.lists = null;
+  }
+
+  updateFiles(changes: DatasetChanges<DriveFile>) {
+    applyChanges(this.filesById, changes);
+    this.lists = null;
+  }
+
+  updateCandidates(changes: DatasetChanges<CleanupCandidate>) {
+    applyChanges(this.candidatesById, changes);
+    this.lists = null;
+  }
+
+  private current() {
+    if (!this.lists) this.lists = { files: Array.from(this.filesById.values()), candidates: Array.from(this.candidatesById.values()) };
+    return this.lists;
+  }
+
+  // Candidate IDs in display order; the caller maps them back to its own objects.
+  filter(filters: ReviewFilters): string[] {
+    return filterReviewItems(this.current().candidates, this.filesById, filters).map(item => item.candidate.id);
+  }
+
+  duplicateGroups(strategy?: SurvivorStrategy): DuplicateGroup[] {
+    const { files, candidates } = this.current();
+    return buildDuplicateGroups(files, candidates, strategy);
+  }
+
+  // The local rules pass over the given files, in the order given; they must already be in the dataset.
+  analyze(fileIds: string[], options: LocalAnalyzerOptions): AnalysisResult {
+    const files = fileIds.map(id => this.filesById.get(id)).filter((f): f is DriveFile => Boolean(f));
+    return analyzeFilesLocally(files, options);
+  }
+}
+
+export type ReviewRequest =
+  | { type: 'files'; changes: DatasetChanges<DriveFile> }
+  | { type: 'candidates'; changes: DatasetChanges<CleanupCandidate> }
+  | { type: 'filter'; filters: ReviewFilters }
+  | { type: 'duplicateGroups'; strategy?: SurvivorStrategy }
+  | { type: 'analyze'; fileIds: string[]; options: LocalAnalyzerOptions };
+
+export interface ReviewWorkerMessage {
+  id: number;
+  request: ReviewRequest;
+}
+
+export interface ReviewWorkerReply {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+export const handleReviewRequest = (index: ReviewIndex, request: ReviewRequest): unknown => {
+  switch (request.type) {
+    case 'files': return index.updateFiles(request.changes);
+    case 'candidates': return index.updateCandidates(request.changes);
+    case 'filter': return index.filter(request.filters);
+    case 'duplicateGroups': return index.duplicateGroups(request.strategy);
+    case 'analyze': return index.analyze(request.fileIds, request.options);
+  }
+};
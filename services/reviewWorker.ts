@@ -0,0 +1,16 @@
+
+import { ReviewIndex, ReviewWorkerMessage, ReviewWorkerReply, handleReviewRequest } from "./reviewIndex.ts";
+
+// Worker entry point: requests are handled one at a time, in the order they were posted.
+const index = new ReviewIndex();
+
+self.onmessage = (event: MessageEvent<ReviewWorkerMessage>) => {
+  const { id, request } = event.data;
+  let reply: ReviewWorkerReply;
+  try {
+    reply = { id, result: handleReviewRequest(index, request) };
+  } catch (e) {
+    reply = { id, error: e instanceof Error ? e.message : String(e) };
+  }
+  self.postMessage(reply);
+};
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReviewWorkerClient } from "./reviewWorkerClient.ts";
+import { DEFAULT_REVIEW_FILTERS } from "./reviewFilters.ts";
+import { CleanupCandidate, DriveFile } from "../types.ts";
+
+const file = (id: string, size: number, modifiedTime: string, mimeType = 'video/mp4'): DriveFile =>
+  ({ id, name: `${id}.bin`, mimeType, modifiedTime, size: String(size), md5Checksum: id.startsWith('dup') ? 'same' : id });
+const files = [
+  file('small', 10, '2024-01-01T00:00:00Z'),
+  file('big', 1000, '2022-01-01T00:00:00Z'),
+  file('dup-new', 50, '2024-02-01T00:00:00Z', 'image/png'),
+  file('dup-old', 50, '2020-02-01T00:00:00Z', 'image/png'),
+];
+const candidates: CleanupCandidate[] = [
+  { id: 'small', category: 'old', reason: 'Old', confidence: 0.4 },
+  { id: 'big', category: 'large', reason: 'Big', confidence: 0.8 },
+  { id: 'dup-old', category: 'duplicate', reason: 'Copy', confidence: 0.95 },
+];
+
+// Without Worker support the client answers every request on the main thread.
+describe('ReviewWorkerClient without workers', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('filters and sorts the candidates it was given', async () => {
+    const client = new ReviewWorkerClient();
+    await client.setDataset(files, candidates);
+
+    expect(await client.filter(DEFAULT_REVIEW_FILTERS)).toEqual(['dup-old', 'big', 'small']);
+    expect(await client.filter({ ...DEFAULT_REVIEW_FILTERS, sortBy: 'size' })).toEqual(['big', 'dup-old', 'small']);
+    expect(await client.filter({ ...DEFAULT_REVIEW_FILTERS, category: 'old', search: 'SMALL' })).toEqual(['small']);
+    expect(await client.filter({ ...DEFAULT_REVIEW_FILTERS, mimeType: 'image/png' })).toEqual(['dup-old']);
+  });
+
+  it('groups duplicates with the chosen survivor', async () => {
+    const client = new ReviewWorkerClient();
+    await client.setDataset(files, candidates);
+
+    expect(await client.duplicateGroups()).toEqual([{ key: 'same', fileIds: ['dup-new', 'dup-old'], survivorId: 'dup-new' }]);
+    expect((await client.duplicateGroups('oldest'))[0].survivorId).toBe('dup-old');
+  });
+
+  it('runs the local rules pass on the files it is given', async () => {
+    const client = new ReviewWorkerClient();
+    const result = await client.analyzeLocally(files, { rules: [] });
+
+    expect(result.candidates.map(c => c.id)).toEqual(['dup-old']);
+    await client.setDataset(files, result.candidates);
+    expect(await client.filter(DEFAULT_REVIEW_FILTERS)).toEqual(['dup-old']);
+  });
+
+  it('answers for the latest dataset', async () => {
+    const client = new ReviewWorkerClient();
+    await client.setDataset(files, candidates);
+    await client.setDataset(files, candidates.slice(0, 1));
+
+    expect(await client.filter(DEFAULT_REVIEW_FILTERS)).toEqual(['small']);
+  });
+});
@@ -0,0 +1,136 @@
+
+import { DriveFile, CleanupCandidate, DuplicateGroup, ReviewFilters, SurvivorStrategy, AnalysisResult } from "../types.ts";
+import { ReviewIndex, ReviewRequest, ReviewWorkerMessage, ReviewWorkerReply, handleReviewRequest, diffById } from "./reviewIndex.ts";
+import { LocalAnalyzerOptions } from "./localAnalyzer.ts";
+import { babelStandalone, compileModuleGraph } from "../utils/babelModules.ts";
+
+interface Pending {
+  request: ReviewRequest;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+// Vite bundles the worker from this URL. When the page runs from its importmap, TypeScript is compiled
+// in the browser by Babel standalone, so the worker's modules are compiled the same way into blobs.
+const spawnReviewWorker = async (): Promise<Worker> => {
+  if (!babelStandalone()) return new Worker(new URL('./reviewWorker.ts', import.meta.url), { type: 'module' });
+  const entry = await compileModuleGraph(new URL('services/reviewWorker.ts', document.baseURI).href);
+  return new Worker(entry, { type: 'module' });
+};
+
+// Keeps the local rules pass, filtering, sorting and duplicate grouping off the main thread. If the
+// worker cannot start or crashes, the same requests are answered in-thread so the review screen keeps working.
+export class ReviewWorkerClient {
+  private worker: Worker | null = null;
+  private starting: Promise<void> | null = null;
+  private fallback: ReviewIndex | null = null;
+  private nextId = 1;
+  private pending = new Map<number, Pending>();
+  // What the worker holds, as last sent.
+  private files: DriveFile[] = [];
+  private candidates: CleanupCandidate[] = [];
+
+  private start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = spawnReviewWorker().then(worker => {
+        this.worker = worker;
+        worker.onmessage = (event: MessageEvent<ReviewWorkerReply>) => this.settle(event.data);
+        worker.onerror = (event) => {
+          console.error("[DrivePurge] Review worker failed, continuing on the main thread:", event.message);
+          this.fallBack();
+        };
+      }).catch(e => {
+        console.warn("[DrivePurge] Review worker unavailable, running on the main thread:", e);
+        this.fallBack();
+      });
+    }
+    return this.starting;
+  }
+
+  private fallBack() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.fallback = new ReviewIndex();
+    this.fallback.setDataset(this.files, this.candidates);
+    const pending = Array.from(this.pending.entries());
+    this.pending.clear();
+    for (const [id, entry] of pending) {
+      // The dataset was already replayed above; everything else is answered now, in order.
+      if (entry.request.type === 'files' || entry.request.type === 'candidates') entry.resolve(undefined);
+      else this.settleLocally(id, entry);
+    }
+  }
+
+  private settle(reply: ReviewWorkerReply) {
+    const entry = this.pending.get(reply.id);
+    if (!entry) return;
+    this.pending.delete(reply.id);
+    if (reply.error) entry.reject(new Error(reply.error));
+    else entry.resolve(reply.result);
+  }
+
+  private settleLocally(id: number, entry: Pending) {
+    this.pending.delete(id);
+    try {
+      entry.resolve(handleReviewRequest(this.fallback!, entry.request));
+    } catch (e) {
+      entry.reject(e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+
+  // Requests are queued while the worker starts and posted in the order they were made.
+  private send<T>(request: ReviewRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const id = this.nextId++;
+      const entry: Pending = { request, resolve: result => resolve(result as T), reject };
+      this.pending.set(id, entry);
+      this.start().then(() => {
+        // A worker that failed to start already answered everything pending.
+        if (!this.pending.has(id)) return;
+        if (this.worker) {
+          const message: ReviewWorkerMessage = { id, request };
+          this.worker.postMessage(message);
+        } else {
+          this.settleLocally(id, entry);
+        }
+      });
+    });
+  }
+
+  private sendFiles(files: DriveFile[]): Promise<void> | null {
+    if (files === this.files) return null;
+    const sent = this.send<void>({ type: 'files', changes: diffById(this.files, files) });
+    this.files = files;
+    return sent;
+  }
+
+  // Structured-cloning 50k files is the expensive part, so only records that changed since the last
+  // call are sent. Requests are answered in order, so a later filter already sees these changes.
+  setDataset(files: DriveFile[], candidates: CleanupCandidate[]): Promise<void> {
+    const sent: Promise<void>[] = [];
+    const filesSent = this.sendFiles(files);
+    if (filesSent) sent.push(filesSent);
+    if (candidates !== this.candidates) {
+      sent.push(this.send<void>({ type: 'candidates', changes: diffById(this.candidates, candidates) }));
+      this.candidates = candidates;
+    }
+    return Promise.all(sent).then(() => undefined);
+  }
+
+  // Runs the local rules pass in the worker. The files become its dataset, which is what the review
+  // shows next anyway, so only their IDs travel with the request.
+  analyzeLocally(files: DriveFile[], options: LocalAnalyzerOptions): Promise<AnalysisResult> {
+    this.sendFiles(files);
+    return this.send<AnalysisResult>({ type: 'analyze', fileIds: files.map(f => f.id), options });
+  }
+
+  filter(filters: ReviewFilters): Promise<string[]> {
+    return this.send<string[]>({ type: 'filter', filters });
+  }
+
+  duplicateGroups(strategy?: SurvivorStrategy): Promise<DuplicateGroup[]> {
+    return this.send<DuplicateGroup[]>({ type: 'duplicateGroups', strategy });
+  }
+}
+
+export const reviewWorker = new ReviewWorkerClient();
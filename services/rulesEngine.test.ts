@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRules, exportRules, importRules } from "./rulesEngine.ts";
+import { CleanupRule, DriveFile } from "../types.ts";
+
+const MB = 1024 * 1024;
+const now = new Date('2024-06-01T00:00:00Z');
+
+const file = (id: string, name: string, sizeMb: number, modifiedTime: string, parents: string[] = ['root']): DriveFile =>
+  ({ id, name, mimeType: name.endsWith('.mp4') ? 'video/mp4' : 'image/png', modifiedTime, size: String(sizeMb * MB), parents });
+
+const ruleWith = (conditions: unknown) => JSON.stringify([{ name: 'Videos', category: 'large', confidence: 0.8, conditions }]);
+
+const rule = (overrides: Partial<CleanupRule>): CleanupRule =>
+  ({ id: 'r', name: 'Rule', enabled: true, conditions: {}, category: 'large', confidence: 0.5, ...overrides });
+
+describe('evaluateRules', () => {
+  const files = [
+    file('video', 'Holiday.mp4', 500, '2024-05-01T00:00:00Z'),
+    file('shot', 'Screenshot 1.png', 1, '2020-01-01T00:00:00Z', ['shots']),
+    file('nested', 'Screenshot 2.png', 1, '2024-05-20T00:00:00Z', ['sub']),
+  ];
+
+  it('lets the most confident matching rule win', () => {
+    const rules = [
+      rule({ id: 'big', conditions: { minSizeBytes: 100 * MB }, confidence: 0.6 }),
+      rule({ id: 'videos', conditions: { mimeType: 'video/*' }, category: 'old', confidence: 0.8, name: 'Videos' }),
+      rule({ id: 'off', conditions: { mimeType: 'video/*' }, confidence: 0.99, enabled: false }),
+    ];
+
+    expect(evaluateRules(files, rules, { now })).toEqual([
+      { id: 'video', category: 'old', reason: 'Rule: Videos', confidence: 0.8 },
+    ]);
+  });
+
+  it('matches names, ages and folders anywhere below', () => {
+    const rules = [rule({ conditions: { namePattern: 'screenshot*', folderId: 'shots' } })];
+    const folderParents = new Map([['sub', 'shots'], ['shots', 'root']]);
+
+    expect(evaluateRules(files, rules, { now, folderParents }).map(c => c.id)).toEqual(['shot', 'nested']);
+    expect(evaluateRules(files, [rule({ conditions: { olderThanDays: 365 } })], { now }).map(c => c.id)).toEqual(['shot']);
+  });
+});
+
+describe('importRules', () => {
+  it('reads back what exportRules wrote', () => {
+    const rules = [rule({ id: 'big', name: 'Big', conditions: { minSizeBytes: MB } })];
+
+    expect(importRules(exportRules(rules))).toEqual(rules);
+  });
+
+  it('rejects rules it cannot use', () => {
+    expect(() => importRules('nope')).toThrow('not valid JSON');
+    expect(() => importRules('{"rules": 3}')).toThrow('Expected a JSON array of rules.');
+    expect(() => importRules('[{"name": "X", "category": "huge", "confidence": 0.5}]')).toThrow('unknown category "huge"');
+    expect(() => importRules('[{"name": "X", "category": "old", "confidence": 2}]')).toThrow('confidence between 0 and 1');
+  });
+
+  it('keeps valid conditions', () => {
+    expect(importRules(ruleWith({ mimeType: ' video/* ', minSizeBytes: 1024, namePattern: '' }))[0].conditions)
+      .toEqual({ mimeType: 'video/*', minSizeBytes: 1024 });
+  });
+
+  it('rejects conditions it cannot apply', () => {
+    expect(() => importRules(ruleWith({ minSizeBytes: '100MB' }))).toThrow('Rule 1 ("Videos") needs a number of zero or more for the "minSizeBytes" condition.');
+    expect(() => importRules(ruleWith({ olderThanDays: -1 }))).toThrow('"olderThanDays"');
+    expect(() => importRules(ruleWith({ mimeType: 5 }))).toThrow('needs text for the "mimeType" condition');
+    expect(() => importRules(ruleWith({ sizeOver: 10 }))).toThrow('unknown condition "sizeOver"');
+    expect(() => importRules(ruleWith(['video/*']))).toThrow('conditions that are not an object');
+  });
+
+  it('rejects rules that would match every file', () => {
+    expect(() => importRules(ruleWith(undefined))).toThrow('Rule 1 ("Videos") has no conditions, so it would match every file.');
+    expect(() => importRules(ruleWith({}))).toThrow('has no conditions');
+    expect(() => importRules(ruleWith({ mimeType: ' ', namePattern: '', folderId: null }))).toThrow('has no conditions');
+  });
+});
@@ -0,0 +1,192 @@
+
+import { DriveFile, CleanupRule, CleanupCandidate, RuleConditions, CLEANUP_CATEGORIES } from "../types.ts";
+import { globToRegExp } from "../utils/glob.ts";
+import { formatBytes } from "../utils/format.ts";
+import { storageBytes } from "./storageQuota.ts";
+
+const STORAGE_KEY = 'DRIVE_PURGE_RULES';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+export const DEFAULT_RULES: CleanupRule[] = [
+  {
+    id: 'default-large-stale',
+    name: 'Large and untouched for 2 years',
+    enabled: true,
+    conditions: { minSizeBytes: 100 * MB, olderThanDays: 730 },
+    category: 'large',
+    confidence: 0.85,
+  },
+  {
+    id: 'default-large',
+    name: 'Larger than 100 MB',
+    enabled: true,
+    conditions: { minSizeBytes: 100 * MB },
+    category: 'large',
+    confidence: 0.6,
+  },
+  {
+    id: 'default-stale',
+    name: 'Not modified in 2 years',
+    enabled: true,
+    conditions: { olderThanDays: 730 },
+    category: 'old',
+    confidence: 0.5,
+  },
+];
+
+export interface RuleContext {
+  now?: Date;
+  // folderId -> parentId, used to resolve "anywhere below this folder".
+  folderParents?: Map<string, string | undefined>;
+}
+
+export const createRuleId = () => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const isInFolder = (file: DriveFile, folderId: string, folderParents?: Map<string, string | undefined>): boolean => {
+  const seen = new Set<string>();
+  let current = file.parents?.[0];
+  while (current && !seen.has(current)) {
+    if (current === folderId) return true;
+    seen.add(current);
+    current = folderParents?.get(current);
+  }
+  return false;
+};
+
+// Compiled once per evaluation so globs aren't rebuilt for every file.
+const compile = (conditions: RuleConditions, context: RuleContext) => {
+  const now = (context.now || new Date()).getTime();
+  const mime = conditions.mimeType?.trim() ? globToRegExp(conditions.mimeType) : null;
+  const name = conditions.namePattern?.trim() ? globToRegExp(conditions.namePattern) : null;
+  const folderId = conditions.folderId?.trim();
+
+  return (file: DriveFile): boolean => {
+    const bytes = storageBytes(file);
+    const ageDays = (now - new Date(file.modifiedTime).getTime()) / DAY_MS;
+    if (mime && !mime.test(file.mimeType)) return false;
+    if (name && !name.test(file.name)) return false;
+    if (conditions.minSizeBytes !== undefined && !(bytes > conditions.minSizeBytes)) return false;
+    if (conditions.maxSizeBytes !== undefined && !(bytes < conditions.maxSizeBytes)) return false;
+    if (conditions.olderThanDays !== undefined && !(ageDays > conditions.olderThanDays)) return false;
+    if (conditions.newerThanDays !== undefined && !(ageDays < conditions.newerThanDays)) return false;
+    if (folderId && !isInFolder(file, folderId, context.folderParents)) return false;
+    return true;
+  };
+};
+
+// Every enabled rule is tested; when several match a file the highest-confidence rule wins.
+export const evaluateRules = (files: DriveFile[], rules: CleanupRule[], context: RuleContext = {}): CleanupCandidate[] => {
+  const compiled = rules.filter(r => r.enabled).map(rule => ({ rule, test: compile(rule.conditions, context) }));
+  const candidates: CleanupCandidate[] = [];
+  for (const file of files) {
+    let best: CleanupRule | null = null;
+    for (const { rule, test } of compiled) {
+      if ((!best || rule.confidence > best.confidence) && test(file)) best = rule;
+    }
+    if (best) {
+      candidates.push({ id: file.id, category: best.category, reason: `Rule: ${best.name}`, confidence: best.confidence });
+    }
+  }
+  return candidates;
+};
+
+export const describeConditions = (c: RuleConditions): string => {
+  const parts: string[] = [];
+  if (c.mimeType) parts.push(`type ${c.mimeType}`);
+  if (c.namePattern) parts.push(`name ${c.namePattern}`);
+  if (c.minSizeBytes !== undefined) parts.push(`larger than ${formatBytes(c.minSizeBytes)}`);
+  if (c.maxSizeBytes !== undefined) parts.push(`smaller than ${formatBytes(c.maxSizeBytes)}`);
+  if (c.olderThanDays !== undefined) parts.push(`older than ${c.olderThanDays} days`);
+  if (c.newerThanDays !== undefined) parts.push(`newer than ${c.newerThanDays} days`);
+  if (c.folderId) parts.push(`in folder ${c.folderId}`);
+  return parts.length > 0 ? parts.join(' and ') : 'every file';
+};
+
+const TEXT_CONDITIONS = ['mimeType', 'namePattern', 'folderId'] as const;
+const NUMBER_CONDITIONS = ['minSizeBytes', 'maxSizeBytes', 'olderThanDays', 'newerThanDays'] as const;
+
+// A rule with nothing to test would flag every file in the Drive.
+export const hasConditions = (c: RuleConditions): boolean =>
+  TEXT_CONDITIONS.some(key => Boolean(c[key]?.trim())) || NUMBER_CONDITIONS.some(key => c[key] !== undefined);
+
+// Only known conditions with values compile() can use; anything else would silently match every file.
+const parseConditions = (raw: unknown, label: string): RuleConditions => {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${label} has conditions that are not an object.`);
+  const source = raw as Record<string, unknown>;
+  const conditions: RuleConditions = {};
+  for (const key of Object.keys(source)) {
+    const value = source[key];
+    if (value === undefined || value === null) continue;
+    if ((TEXT_CONDITIONS as readonly string[]).includes(key)) {
+      if (typeof value !== 'string') throw new Error(`${label} needs text for the "${key}" condition.`);
+      if (value.trim()) conditions[key as typeof TEXT_CONDITIONS[number]] = value.trim();
+    } else if ((NUMBER_CONDITIONS as readonly string[]).includes(key)) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new Error(`${label} needs a number of zero or more for the "${key}" condition.`);
+      }
+      conditions[key as typeof NUMBER_CONDITIONS[number]] = value;
+    } else {
+      throw new Error(`${label} has an unknown condition "${key}".`);
+    }
+  }
+  return conditions;
+};
+
+// Throws with a readable message; used for both stored and imported rule sets.
+export const parseRules = (raw: unknown): CleanupRule[] => {
+  const list = Array.isArray(raw) ? raw : (raw as { rules?: unknown })?.rules;
+  if (!Array.isArray(list)) throw new Error("Expected a JSON array of rules.");
+
+  return list.map((entry, i) => {
+    const label = `Rule ${i + 1}`;
+    if (typeof entry !== 'object' || entry === null) throw new Error(`${label} is not an object.`);
+    const r = entry as Partial<CleanupRule>;
+    if (typeof r.name !== 'string' || !r.name.trim()) throw new Error(`${label} has no name.`);
+    if (!r.category || !CLEANUP_CATEGORIES.includes(r.category)) {
+      throw new Error(`${label} ("${r.name}") has an unknown category "${r.category}".`);
+    }
+    const confidence = Number(r.confidence);
+    if (isNaN(confidence) || confidence < 0 || confidence > 1) {
+      throw new Error(`${label} ("${r.name}") needs a confidence between 0 and 1.`);
+    }
+    const conditions = parseConditions(r.conditions, `${label} ("${r.name.trim()}")`);
+    if (!hasConditions(conditions)) throw new Error(`${label} ("${r.name.trim()}") has no conditions, so it would match every file.`);
+    return {
+      id: typeof r.id === 'string' && r.id ? r.id : createRuleId(),
+      name: r.name.trim(),
+      enabled: r.enabled !== false,
+      conditions,
+      category: r.category,
+      confidence,
+    };
+  });
+};
+
+export const getRules = (): CleanupRule[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return DEFAULT_RULES;
+  try {
+    return parseRules(JSON.parse(saved));
+  } catch (e) {
+    console.error("[DrivePurge] Ignoring unreadable rule set:", e);
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRules = (rules: CleanupRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const exportRules = (rules: CleanupRule[]): string => JSON.stringify({ version: 1, rules }, null, 2);
+
+export const importRules = (json: string): CleanupRule[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  return parseRules(parsed);
+};
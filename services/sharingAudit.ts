@@ -0,0 +1,111 @@
+
+import { DriveFile, DrivePermission, CleanupCandidate, ExposureSeverity, PurgeAction } from "../types.ts";
+import { ProtectionCheck } from "./protectionService.ts";
+
+export interface SharingAuditOptions {
+  // Domains treated as inside the organization, normally the signed-in account's own.
+  internalDomains: string[];
+}
+
+const SEVERITY_CONFIDENCE: Record<ExposureSeverity, number> = {
+  high: 0.95,
+  medium: 0.85,
+  low: 0.6,
+};
+
+const WRITE_ROLES = ['writer', 'fileOrganizer', 'organizer'];
+
+export const domainOf = (email?: string | null): string | null => {
+  const at = email?.lastIndexOf('@') ?? -1;
+  return at > 0 ? email!.slice(at + 1).toLowerCase() : null;
+};
+
+// Addresses anyone can sign up for: sharing with someone else on gmail.com is sharing outside.
+const CONSUMER_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com', 'yahoo.com',
+  'icloud.com', 'me.com', 'mac.com', 'aol.com', 'proton.me', 'protonmail.com', 'gmx.com', 'yandex.com',
+]);
+
+// Drive does not report the account's Workspace domain (about.get has no such field), so it is taken
+// from the address. Consumer accounts and the demo Drive, which has no signed-in address, have no
+// organization: every grant to another account counts as outside.
+export const internalDomainsFor = (email?: string | null): string[] => {
+  const domain = domainOf(email);
+  return domain && !CONSUMER_DOMAINS.has(domain) ? [domain] : [];
+};
+
+// Grants that reach past the organization: link or public sharing, another domain, or an outside account.
+// The owner is never one of them.
+export const exposedPermissions = (file: DriveFile, options: SharingAuditOptions): DrivePermission[] => {
+  const internal = new Set(options.internalDomains.map(d => d.toLowerCase()));
+  return (file.permissions || []).filter(p => {
+    if (p.role === 'owner') return false;
+    switch (p.type) {
+      case 'anyone': return true;
+      case 'domain': return !internal.has((p.domain || '').toLowerCase());
+      default: {
+        const domain = domainOf(p.emailAddress);
+        return !domain || !internal.has(domain);
+      }
+    }
+  });
+};
+
+// Anyone-access is high; another domain or an outside editor is medium; outside viewers are low.
+export const exposureSeverity = (permissions: DrivePermission[]): ExposureSeverity | null => {
+  if (permissions.length === 0) return null;
+  if (permissions.some(p => p.type === 'anyone')) return 'high';
+  if (permissions.some(p => p.type === 'domain' || WRITE_ROLES.includes(p.role))) return 'medium';
+  return 'low';
+};
+
+const describeExposure = (permissions: DrivePermission[]): string => {
+  const parts: string[] = [];
+  const anyone = permissions.find(p => p.type === 'anyone');
+  if (anyone) {
+    const access = WRITE_ROLES.includes(anyone.role) ? 'edit' : anyone.role === 'commenter' ? 'comment' : 'view';
+    parts.push(anyone.allowFileDiscovery ? `Public on the web: anyone can find and ${access}` : `Anyone with the link can ${access}`);
+  }
+  const domains = permissions.filter(p => p.type === 'domain').map(p => p.domain || 'unknown domain');
+  if (domains.length > 0) parts.push(`Shared with everyone at ${domains.join(', ')}`);
+  const accounts = permissions.filter(p => p.type === 'user' || p.type === 'group');
+  if (accounts.length > 0) {
+    const accountDomains = Array.from(new Set(accounts.map(p => domainOf(p.emailAddress) || 'unknown')));
+    const editors = accounts.filter(p => WRITE_ROLES.includes(p.role)).length;
+    parts.push(`Shared with ${accounts.length} external account${accounts.length === 1 ? '' : 's'} (${accountDomains.join(', ')})${editors > 0 ? `, ${editors} can edit` : ''}`);
+  }
+  return parts.join('; ');
+};
+
+// Files without listed permissions (shared-drive items, files this account cannot share) are not judged.
+export const findExposedFiles = (files: DriveFile[], options: SharingAuditOptions): CleanupCandidate[] => {
+  const candidates: CleanupCandidate[] = [];
+  for (const file of files) {
+    const exposed = exposedPermissions(file, options);
+    const severity = exposureSeverity(exposed);
+    if (!severity) continue;
+    candidates.push({
+      id: file.id,
+      category: 'exposed',
+      reason: describeExposure(exposed),
+      confidence: SEVERITY_CONFIDENCE[severity],
+      severity,
+    });
+  }
+  return candidates;
+};
+
+// Exposed files start out set to "restrict" when sharing is all they were flagged for, or when they
+// could not be trashed anyway (shared files are protected from removal).
+export const defaultPurgeActions = (
+  candidates: CleanupCandidate[],
+  filesById: Map<string, DriveFile>,
+  protectionReason: ProtectionCheck
+): Record<string, PurgeAction> => {
+  const actions: Record<string, PurgeAction> = {};
+  for (const c of candidates) {
+    const file = filesById.get(c.id);
+    if (file && c.severity && (c.category === 'exposed' || protectionReason(file, 'trash'))) actions[c.id] = 'restrict';
+  }
+  return actions;
+};
@@ -0,0 +1,41 @@
+
+import { DriveSnapshot } from "../types.ts";
+import { SNAPSHOT_STORE, runRequest } from "./database.ts";
+
+// A change cursor only means something for the account that created it, so each account keeps its own.
+const snapshotIdFor = (accountEmail: string) => `account:${accountEmail.toLowerCase()}`;
+
+// Snapshots hold the full file list, which can be far larger than localStorage allows, so they
+// live in IndexedDB. Every method degrades to "no snapshot" if IndexedDB is unavailable.
+class SnapshotStore {
+  private run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return runRequest<T>(SNAPSHOT_STORE, mode, action);
+  }
+
+  async load(accountEmail: string): Promise<DriveSnapshot | null> {
+    try {
+      return (await this.run<DriveSnapshot | undefined>('readonly', store => store.get(snapshotIdFor(accountEmail)))) || null;
+    } catch (e) {
+      console.error("[DrivePurge] Could not read snapshot:", e);
+      return null;
+    }
+  }
+
+  async save(snapshot: Omit<DriveSnapshot, 'id'>, accountEmail: string): Promise<void> {
+    try {
+      await this.run('readwrite', store => store.put({ ...snapshot, accountEmail, id: snapshotIdFor(accountEmail) }));
+    } catch (e) {
+      console.error("[DrivePurge] Could not save snapshot:", e);
+    }
+  }
+
+  async clear(accountEmail: string): Promise<void> {
+    try {
+      await this.run('readwrite', store => store.delete(snapshotIdFor(accountEmail)));
+    } catch (e) {
+      console.error("[DrivePurge] Could not clear snapshot:", e);
+    }
+  }
+}
+
+export const snapshotStore = new SnapshotStore();
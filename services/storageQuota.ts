@@ -0,0 +1,44 @@
+
+import { DriveFile, StorageQuota, TypeUsage } from "../types.ts";
+
+// Google-native Docs report no `size`; `quotaBytesUsed` is what they actually cost.
+export const storageBytes = (file: DriveFile): number =>
+  parseInt(file.size || '0') || parseInt(file.quotaBytesUsed || '0') || 0;
+
+const TYPE_FAMILIES: { label: string; test: (mimeType: string) => boolean }[] = [
+  { label: 'Google Docs', test: m => m.startsWith('application/vnd.google-apps.') },
+  { label: 'Videos', test: m => m.startsWith('video/') },
+  { label: 'Images', test: m => m.startsWith('image/') },
+  { label: 'Audio', test: m => m.startsWith('audio/') },
+  { label: 'PDFs', test: m => m === 'application/pdf' },
+  { label: 'Archives', test: m => /zip|x-tar|gzip|x-7z|x-rar/.test(m) },
+  { label: 'Office documents', test: m => m.includes('officedocument') || m.includes('msword') || m.includes('ms-excel') || m.includes('ms-powerpoint') },
+];
+
+export const typeLabel = (mimeType: string): string =>
+  TYPE_FAMILIES.find(f => f.test(mimeType))?.label || 'Other';
+
+// Largest families first.
+export const usageByType = (files: DriveFile[]): TypeUsage[] => {
+  const totals = new Map<string, TypeUsage>();
+  for (const file of files) {
+    const label = typeLabel(file.mimeType);
+    const entry = totals.get(label) || { label, bytes: 0, count: 0 };
+    entry.bytes += storageBytes(file);
+    entry.count++;
+    totals.set(label, entry);
+  }
+  return Array.from(totals.values()).sort((a, b) => b.bytes - a.bytes);
+};
+
+export const parseStorageQuota = (raw: Record<string, string | undefined>): StorageQuota => ({
+  limit: raw.limit ? Number(raw.limit) : undefined,
+  usage: Number(raw.usage || 0),
+  usageInDrive: Number(raw.usageInDrive || 0),
+  usageInDriveTrash: Number(raw.usageInDriveTrash || 0),
+});
+
+// Trashed files keep counting against the quota until the Trash is emptied, so this is the usage
+// once that happens. Never drops below zero if the selection was sized from stale metadata.
+export const projectUsage = (quota: StorageQuota, reclaimedBytes: number): number =>
+  Math.max(0, quota.usage - reclaimedBytes);
@@ -3,23 +3,427 @@ export interface DriveFile {
   id: string;
   name: string;
   size?: string;
+  // Filled for every file, including Google-native Docs whose `size` is empty.
+  quotaBytesUsed?: string;
   mimeType: string;
   modifiedTime: string;
   md5Checksum?: string;
   webViewLink?: string;
   thumbnailLink?: string;
+  parents?: string[];
+  starred?: boolean;
+  ownedByMe?: boolean;
+  shared?: boolean;
+  owners?: DriveUser[];
+  // Drive only lists permissions for files this account can share, and never for shared-drive items.
+  permissions?: DrivePermission[];
+  permissionIds?: string[];
+  // Set for files that live in a shared drive rather than My Drive.
+  driveId?: string;
+  capabilities?: { canTrash?: boolean; canShare?: boolean };
 }
 
+export interface DrivePermission {
+  id: string;
+  type: 'user' | 'group' | 'domain' | 'anyone';
+  role: string;
+  emailAddress?: string;
+  domain?: string;
+  // For "anyone" and "domain" grants: true when the file can be found by search, not only through the link.
+  allowFileDiscovery?: boolean;
+}
+
+export interface DriveUser {
+  displayName?: string;
+  emailAddress?: string;
+}
+
+// Files matching any entry are never preselected or trashed.
+export interface Allowlist {
+  nameGlobs: string[];
+  folderIds: string[];
+  fileIds: string[];
+}
+
+export interface FolderNode {
+  id: string;
+  name: string;
+  parentId?: string;
+  children: FolderNode[];
+  // Non-folder files directly inside this folder.
+  fileIds: string[];
+  directBytes: number;
+  // Totals include every subfolder.
+  totalBytes: number;
+  totalFiles: number;
+}
+
+export type CleanupCategory = 'duplicate' | 'near_duplicate' | 'old' | 'large' | 'exposed';
+
+// What the model, rules and chat agent may assign; 'exposed' only comes from the sharing audit.
+export const CLEANUP_CATEGORIES: CleanupCategory[] = ['duplicate', 'near_duplicate', 'old', 'large'];
+
+export const REVIEW_CATEGORIES: CleanupCategory[] = [...CLEANUP_CATEGORIES, 'exposed'];
+
+export type ExposureSeverity = 'high' | 'medium' | 'low';
+
 export interface CleanupCandidate {
   id: string;
   reason: string;
-  category: 'duplicate' | 'old' | 'large';
+  category: CleanupCategory;
   confidence: number;
+  // The file this one was matched against (e.g. the kept version of a near duplicate).
+  relatedId?: string;
+  // Set whenever the file is shared publicly or outside the organization, whatever the category.
+  severity?: ExposureSeverity;
+}
+
+export interface NearDuplicateSettings {
+  enabled: boolean;
+  // Minimum similarity (0-1) for two files to be clustered.
+  threshold: number;
+  // Also compares perceptual hashes of image thumbnails; costs one fetch per image.
+  compareThumbnails: boolean;
+}
+
+export interface PrivacySettings {
+  // Replaces file names with tokens before metadata is sent to a model provider.
+  redactNames: boolean;
+}
+
+export type AnalysisDiagnosticKind =
+  | 'unparseable_response'
+  | 'malformed_entry'
+  | 'unknown_id'
+  | 'invalid_category'
+  | 'normalized_category'
+  | 'clamped_confidence'
+  | 'repeated_entry';
+
+export interface AnalysisDiagnostic {
+  kind: AnalysisDiagnosticKind;
+  id?: string;
+  detail: string;
 }
 
 export interface AnalysisResult {
   candidates: CleanupCandidate[];
   summary: string;
+  // What the validation layer rejected or corrected in the model output.
+  diagnostics?: AnalysisDiagnostic[];
+  // Which model and prompt produced the result; set by analyzeFiles.
+  provenance?: AnalysisProvenance;
+}
+
+export interface AnalysisProvenance {
+  provider: AnalysisProviderId;
+  model: string;
+  promptVersion: string;
+  // False when the model layer was skipped or failed and only local rules ran.
+  aiApplied: boolean;
+}
+
+export type SurvivorStrategy = 'newest' | 'oldest' | 'preferredFolder' | 'shortestName';
+
+// Copies of the same file; `survivorId` is the one copy that is never trashed.
+export interface DuplicateGroup {
+  key: string;
+  fileIds: string[];
+  survivorId: string;
+}
+
+export interface AuditReportEntry {
+  file: DriveFile;
+  candidate: CleanupCandidate;
+  selected: boolean;
+}
+
+export interface CategoryTotal {
+  count: number;
+  bytes: number;
+  selectedCount: number;
+  selectedBytes: number;
+}
+
+// Portable snapshot of a review: what was flagged, why, and what the reviewer selected.
+export interface AuditReport {
+  version: 1;
+  generatedAt: string;
+  summary: string;
+  entries: AuditReportEntry[];
+  totals: Record<string, CategoryTotal>;
+}
+
+// Everything needed to resume from the last full scan without listing Drive again.
+export interface DriveSnapshot {
+  id: string;
+  takenAt: string;
+  // Drive Changes API cursor captured just before the scan started.
+  startPageToken: string;
+  // A change cursor only means something for the account that created it.
+  accountEmail?: string;
+  rootFolderId?: string;
+  files: DriveFile[];
+  folders: DriveFile[];
+  // The model's own findings, kept apart from local rules so only changed files need re-sending.
+  aiResult: AnalysisResult | null;
+}
+
+export interface DriveChange {
+  fileId: string;
+  removed: boolean;
+  file?: DriveFile & { trashed?: boolean };
+}
+
+export interface SharedDrive {
+  id: string;
+  name: string;
+}
+
+// Which Drive corpora a scan covers: My Drive, the shared drives in `driveIds`, or everything.
+export type DriveCorpus = 'user' | 'drives' | 'allDrives';
+
+export interface ScanFilters {
+  corpus?: DriveCorpus;
+  driveIds?: string[];
+  folderId?: string;
+  mimeType?: string;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+}
+
+export type ReviewSort = 'confidence' | 'size' | 'date';
+
+// Client-side view over the candidates in the review grid; never changes what was analyzed.
+export interface ReviewFilters {
+  category: CleanupCategory | 'all';
+  mimeType: string;
+  search: string;
+  sortBy: ReviewSort;
+}
+
+export interface ScanProgress {
+  pages: number;
+  filesSeen: number;
+  bytesCounted: number;
+}
+
+export interface AnalysisProgress {
+  completedChunks: number;
+  failedChunks: number;
+  totalChunks: number;
+}
+
+export interface RuleConditions {
+  // Glob such as "video/*".
+  mimeType?: string;
+  minSizeBytes?: number;
+  maxSizeBytes?: number;
+  olderThanDays?: number;
+  newerThanDays?: number;
+  // Glob against the file name, e.g. "Screenshot*".
+  namePattern?: string;
+  // Matches files anywhere below this folder.
+  folderId?: string;
+}
+
+export interface CleanupRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleConditions;
+  category: CleanupCategory;
+  confidence: number;
+}
+
+export type AnalysisProviderId = 'gemini' | 'openai' | 'heuristic';
+
+export interface ProviderSettings {
+  provider: AnalysisProviderId;
+  model: string;
+  // Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama.
+  endpoint: string;
+  apiKey?: string;
+  // Keeps the key in localStorage across sessions; otherwise it lives in sessionStorage only.
+  rememberApiKey?: boolean;
+}
+
+export interface AnalysisRunOptions {
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Enabled user rules, passed to the model as context for its own judgement.
+  rules?: CleanupRule[];
+}
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  model: string;
+  isConfigured(): boolean;
+  analyze(files: DriveFile[], options?: AnalysisRunOptions): Promise<AnalysisResult>;
+}
+
+// From about.get; `limit` is absent for unlimited accounts.
+export interface StorageQuota {
+  limit?: number;
+  usage: number;
+  usageInDrive: number;
+  usageInDriveTrash: number;
+}
+
+export interface FileListPage {
+  files: DriveFile[];
+  nextPageToken?: string;
+}
+
+export interface ChangeListPage {
+  changes: DriveChange[];
+  nextPageToken?: string;
+  newStartPageToken?: string;
+}
+
+// The raw Drive v3 calls the app depends on. Implementations reject with gapi-shaped errors
+// ({ status, result: { error: { code, message, errors: [{ reason }] } } }) so retry logic is shared.
+export interface FileListParams {
+  q: string;
+  pageSize: number;
+  pageToken?: string;
+  corpora?: 'user' | 'drive' | 'allDrives';
+  driveId?: string;
+}
+
+export interface DriveBackend {
+  listFiles(params: FileListParams): Promise<FileListPage>;
+  listDrives(pageToken?: string): Promise<{ drives: SharedDrive[]; nextPageToken?: string }>;
+  getFile(fileId: string): Promise<DriveFile>;
+  trash(fileId: string): Promise<void>;
+  restore(fileId: string): Promise<void>;
+  move(fileId: string, addParents: string[], removeParents: string[]): Promise<void>;
+  // Resolves to null when no untrashed folder with that name sits directly in `parentId`.
+  findFolder(name: string, parentId: string): Promise<DriveFile | null>;
+  createFolder(name: string, parentId: string): Promise<DriveFile>;
+  download(fileId: string): Promise<Blob>;
+  // Google-native files have no content of their own and must be converted.
+  exportFile(fileId: string, mimeType: string): Promise<Blob>;
+  listPermissions(fileId: string): Promise<DrivePermission[]>;
+  deletePermission(fileId: string, permissionId: string): Promise<void>;
+  about(): Promise<StorageQuota>;
+  currentUser(): Promise<DriveUser>;
+  getStartPageToken(): Promise<string>;
+  listChanges(params: { pageToken: string; pageSize: number }): Promise<ChangeListPage>;
+}
+
+export interface TypeUsage {
+  label: string;
+  bytes: number;
+  count: number;
+}
+
+export type PurgeOutcome = 'succeeded' | 'failed' | 'skipped';
+
+// What happens to a selected file: trashed, moved into the archive folder, saved locally then trashed,
+// or kept where it is with its public and external permissions removed.
+export type PurgeAction = 'trash' | 'archive' | 'download' | 'restrict';
+
+export const PURGE_ACTIONS: PurgeAction[] = ['trash', 'archive', 'download', 'restrict'];
+
+export interface PurgeItemResult {
+  id: string;
+  status: PurgeOutcome;
+  attempts: number;
+  error?: string;
+  action?: PurgeAction;
+}
+
+export interface PurgeProgress {
+  total: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  last?: PurgeItemResult;
+}
+
+export interface PurgeLogEntry {
+  runId: string;
+  fileId: string;
+  name: string;
+  mimeType: string;
+  size?: string;
+  trashedAt: string;
+  restoredAt?: string;
+  // Entries without an action predate archiving and were trashed.
+  action?: PurgeAction;
+  // Where an archived file lived, so restoring can move it back.
+  previousParents?: string[];
+}
+
+export interface PurgeRun {
+  runId: string;
+  startedAt: string;
+  entries: PurgeLogEntry[];
+}
+
+// A flagged file as recorded in audit history; names and sizes are copied since the file may be gone later.
+export interface AuditCandidateRecord {
+  id: string;
+  name: string;
+  mimeType: string;
+  bytes: number;
+  category: CleanupCategory;
+  reason: string;
+  confidence: number;
+}
+
+export interface AuditRun {
+  id: string;
+  startedAt: string;
+  accountEmail?: string;
+  // Set when only one folder was analyzed.
+  scope?: string;
+  provenance: AnalysisProvenance;
+  fileCount: number;
+  summary: string;
+  candidates: AuditCandidateRecord[];
+  // The preselection at first, replaced by the final selection once the user purges.
+  selectedIds: string[];
+  purge?: {
+    finishedAt: string;
+    dryRun: boolean;
+    results: PurgeItemResult[];
+  };
+}
+
+export interface AuditScoreChange {
+  before: AuditCandidateRecord;
+  after: AuditCandidateRecord;
+}
+
+export interface AuditRunDiff {
+  newlyFlagged: AuditCandidateRecord[];
+  noLongerFlagged: AuditCandidateRecord[];
+  // Flagged in both runs with a different confidence or category.
+  changed: AuditScoreChange[];
+}
+
+export type AgentToolName = 'listCandidates' | 'selectByFilter' | 'deselect' | 'explainFile' | 'searchFiles';
+
+// A selection change suggested in chat. Nothing changes until the user accepts it.
+export interface AgentProposal {
+  id: string;
+  tool: AgentToolName;
+  description: string;
+  select: string[];
+  deselect: string[];
+  // Files the agent flagged that were not candidates yet; they join the list on accept.
+  newCandidates: CleanupCandidate[];
+  // Matches left out because they are protected or the kept copy of a duplicate group.
+  skipped: number;
+  status: 'pending' | 'accepted' | 'rejected';
+}
+
+export interface ChatMessage {
+  role: 'user' | 'agent';
+  text: string;
+  proposals?: AgentProposal[];
 }
 
 export enum AppState {
@@ -29,5 +433,6 @@ export enum AppState {
   ANALYZING,
   REVIEWING,
   TRASHING,
-  COMPLETED
+  COMPLETED,
+  HISTORY
 }
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BabelStandalone, compileModuleGraph } from "./babelModules.ts";
+
+const SOURCES: Record<string, string> = {
+  'https://app.test/services/worker.ts': 'import { a } from "./a.ts";\nimport { b } from "../utils/b.ts";\nimport React from "react";\nself.onmessage = () => a + b;',
+  'https://app.test/services/a.ts': 'import { b } from "../utils/b.ts";\nexport const a = b;',
+  'https://app.test/utils/b.ts': 'export const b = 1;',
+};
+
+// Stands in for Babel standalone; the sources above are already plain JavaScript.
+const babel: BabelStandalone = { transform: vi.fn((code: string) => ({ code })) };
+
+describe('compileModuleGraph', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const serve = () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => SOURCES[url]
+      ? new Response(SOURCES[url])
+      : new Response('', { status: 404 })));
+    const blobs: Blob[] = [];
+    vi.spyOn(URL, 'createObjectURL').mockImplementation((blob) => {
+      blobs.push(blob as Blob);
+      return `blob:${blobs.length}`;
+    });
+    return blobs;
+  };
+
+  it('links every module to the compiled blobs of its imports', async () => {
+    const blobs = serve();
+    const entry = await compileModuleGraph('https://app.test/services/worker.ts', babel);
+
+    // b is shared by the entry and a, and compiled once.
+    expect(blobs).toHaveLength(3);
+    const [b, a, worker] = await Promise.all(blobs.map(blob => blob.text()));
+    expect(entry).toBe('blob:3');
+    expect(b).toBe('export const b = 1;');
+    expect(a).toBe('import { b } from "blob:1";\nexport const a = b;');
+    expect(worker).toContain('import { a } from "blob:2";\nimport { b } from "blob:1";\nimport React from "react";');
+  });
+
+  it('fails when a module cannot be fetched', async () => {
+    serve();
+
+    await expect(compileModuleGraph('https://app.test/services/missing.ts', babel)).rejects.toThrow('Could not load https://app.test/services/missing.ts (404).');
+    await expect(compileModuleGraph('https://app.test/services/worker.ts', undefined)).rejects.toThrow('Babel standalone is not loaded.');
+  });
+});
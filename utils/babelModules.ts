@@ -0,0 +1,36 @@
+
+// The parts of Babel standalone used here; index.html loads it to compile the app's TypeScript in the browser.
+export interface BabelStandalone {
+  transform(code: string, options: Record<string, unknown>): { code?: string | null };
+}
+
+export const babelStandalone = (): BabelStandalone | undefined => (globalThis as { Babel?: BabelStandalone }).Babel;
+
+// Static imports and re-exports by path ("./x.ts", "../y.ts", "/z.ts"), as Babel prints them.
+const IMPORT_SPECIFIER = /(\bfrom\s*|\bimport\s*)(["'])(\.{0,2}\/[^"']+)\2/g;
+
+// Compiles a module and everything it imports by path into blob: URLs, the same way the page compiles
+// index.tsx, so a worker can start from TypeScript sources. Imports must not be circular.
+export const compileModuleGraph = async (entryUrl: string, babel: BabelStandalone | undefined = babelStandalone()): Promise<string> => {
+  if (!babel) throw new Error("Babel standalone is not loaded.");
+  const compiled = new Map<string, Promise<string>>();
+  const compile = (url: string): Promise<string> => {
+    let blobUrl = compiled.get(url);
+    if (!blobUrl) {
+      blobUrl = (async () => {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Could not load ${url} (${response.status}).`);
+        const { code } = babel.transform(await response.text(), { filename: url, presets: ['typescript'], sourceType: 'module' });
+        const source = code || '';
+        const specifiers = Array.from(new Set(Array.from(source.matchAll(IMPORT_SPECIFIER), m => m[3])));
+        const resolved = new Map(await Promise.all(specifiers.map(async s => [s, await compile(new URL(s, url).href)] as const)));
+        const linked = source.replace(IMPORT_SPECIFIER, (_, keyword: string, quote: string, specifier: string) =>
+          `${keyword}${quote}${resolved.get(specifier)}${quote}`);
+        return URL.createObjectURL(new Blob([linked], { type: 'text/javascript' }));
+      })();
+      compiled.set(url, blobUrl);
+    }
+    return blobUrl;
+  };
+  return compile(entryUrl);
+};
@@ -0,0 +1,15 @@
+
+// Saves a blob as a file through a temporary object URL.
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (filename: string, content: string, mimeType: string = 'application/json') =>
+  downloadBlob(filename, new Blob([content], { type: mimeType }));
@@ -0,0 +1,8 @@
+export const formatBytes = (bytes?: number | string): string => {
+  if (bytes === undefined || bytes === null || bytes === '') return 'Unknown size';
+  const num = typeof bytes === 'string' ? parseInt(bytes) : bytes;
+  if (isNaN(num)) return 'Unknown size';
+  if (num > 1024 * 1024 * 1024) return (num / (1024 * 1024 * 1024)).toFixed(1) + ' GB';
+  if (num > 1024 * 1024) return (num / (1024 * 1024)).toFixed(1) + ' MB';
+  return (num / 1024).toFixed(1) + ' KB';
+};
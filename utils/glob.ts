@@ -0,0 +1,8 @@
+
+// Case-insensitive glob matching: `*` matches any run of characters, `?` a single one.
+export const globToRegExp = (pattern: string): RegExp => {
+  const escaped = pattern.trim().replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+};
+
+export const matchesGlob = (value: string, pattern: string): boolean => globToRegExp(pattern).test(value);
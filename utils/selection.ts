@@ -0,0 +1,68 @@
+// IDs are spread over this many chunks; an update copies only the chunks it touches.
+const CHUNK_COUNT = 256;
+
+const chunkOf = (id: string): number => {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (Math.imul(hash, 31) + id.charCodeAt(i)) | 0;
+  return (hash >>> 0) % CHUNK_COUNT;
+};
+
+// The review selection, shaped like a read-only Set. It is persistent: an update returns a new
+// selection that shares every untouched chunk with the old one, so a click copies a few hundred IDs
+// rather than 50k, and earlier values React still holds keep their contents.
+export class SelectionSet implements ReadonlySet<string> {
+  private constructor(private readonly chunks: ReadonlyArray<ReadonlySet<string>>, readonly size: number) {}
+
+  static of(ids: Iterable<string> = []): SelectionSet {
+    const chunks = Array.from({ length: CHUNK_COUNT }, () => new Set<string>());
+    for (const id of ids) chunks[chunkOf(id)].add(id);
+    return new SelectionSet(chunks, chunks.reduce((sum, chunk) => sum + chunk.size, 0));
+  }
+
+  has(id: string): boolean {
+    return this.chunks[chunkOf(id)].has(id);
+  }
+
+  toggle(id: string): SelectionSet {
+    return this.set([id], !this.has(id));
+  }
+
+  // Returns this same selection when nothing changes, so React can skip the render.
+  set(ids: Iterable<string>, selected: boolean): SelectionSet {
+    let chunks: Set<string>[] | null = null;
+    const copied = new Set<number>();
+    let size = this.size;
+    for (const id of ids) {
+      const index = chunkOf(id);
+      if ((chunks ? chunks[index] : this.chunks[index]).has(id) === selected) continue;
+      if (!chunks) chunks = this.chunks.slice() as Set<string>[];
+      if (!copied.has(index)) {
+        chunks[index] = new Set(chunks[index]);
+        copied.add(index);
+      }
+      if (selected) chunks[index].add(id); else chunks[index].delete(id);
+      size += selected ? 1 : -1;
+    }
+    return chunks ? new SelectionSet(chunks, size) : this;
+  }
+
+  forEach(callback: (value: string, key: string, set: ReadonlySet<string>) => void, thisArg?: unknown): void {
+    for (const id of this) callback.call(thisArg, id, id, this);
+  }
+
+  *values(): SetIterator<string> {
+    for (const chunk of this.chunks) yield* chunk;
+  }
+
+  *keys(): SetIterator<string> {
+    yield* this.values();
+  }
+
+  *entries(): SetIterator<[string, string]> {
+    for (const id of this.values()) yield [id, id];
+  }
+
+  [Symbol.iterator](): SetIterator<string> {
+    return this.values();
+  }
+}
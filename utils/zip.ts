@@ -0,0 +1,96 @@
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+  modified?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields; ZIP cannot represent anything before 1980.
+const dosDateTime = (date: Date) => {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+// Without ZIP64 every size and offset is a 32-bit field and the entry count a 16-bit one.
+export const ZIP_MAX_BYTES = 0xffffffff;
+export const ZIP_MAX_ENTRIES = 0xffff;
+
+// Builds an uncompressed (stored) ZIP archive. Most Drive content is already compressed, so
+// deflating would cost time for little gain. There is no ZIP64 support: an archive that would not
+// fit the classic format throws instead of silently wrapping its size fields.
+export const createZip = (entries: ZipEntry[]): Blob => {
+  if (entries.length > ZIP_MAX_ENTRIES) throw new Error(`A ZIP archive can hold at most ${ZIP_MAX_ENTRIES} files.`);
+  const encoder = new TextEncoder();
+  const names = entries.map(entry => encoder.encode(entry.path));
+  const dataSize = entries.reduce((sum, entry, i) => sum + 30 + names[i].length + entry.data.length, 0);
+  const centralSize = names.reduce((sum, name) => sum + 46 + name.length, 0);
+  if (dataSize + centralSize + 22 > ZIP_MAX_BYTES) throw new Error("The ZIP archive would be larger than 4 GB.");
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry, i) => {
+    const name = names[i];
+    const crc = crc32(entry.data);
+    const { time, date } = dosDateTime(entry.modified || new Date());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, entry.data.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + entry.data.length;
+  });
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};